@@ -1,44 +1,49 @@
-import { DataState, FetchFunction, PerformanceMetrics } from "./types";
+import { DataState, FetchFunction, PerformanceMetrics, InvalidateQueriesFilters } from "./types";
 import { prefetchData } from "./prefetch";
-import { 
-  createPerformanceMonitor, 
-  createAdvancedCacheManager,
-  createBackgroundSyncManager,
-  PerformanceMonitor,
-  AdvancedCacheManager,
-  BackgroundSyncManager
-} from "./enhancements";
+import { DataCacheClient, defaultDataCacheClient } from "./client";
+import { QueryKey, hashQueryKey } from "./queryKey";
 
-export const dataCache = new Map<string, DataState<any>>();
-export let preloadedDataSources: { key: string; fn: FetchFunction<any> }[] = [];
+// Module-level aliases onto the default client, kept for backwards compatibility
+export const dataCache = defaultDataCacheClient.dataCache;
+export const preloadedDataSources = defaultDataCacheClient.preloadedDataSources;
 
 // Enhancement managers
-const performanceMonitor = createPerformanceMonitor({ enabled: true });
-const advancedCache = createAdvancedCacheManager();
-const backgroundSync = createBackgroundSyncManager();
+const performanceMonitor = defaultDataCacheClient.performanceMonitor;
+const advancedCache = defaultDataCacheClient.advancedCache;
+const backgroundSync = defaultDataCacheClient.backgroundSync;
 
-export function subscribe(callback: () => void) {
-    window.addEventListener("dataFetched", callback);
-    return () => window.removeEventListener("dataFetched", callback);
+export function subscribe(key: QueryKey, callback: () => void, client: DataCacheClient = defaultDataCacheClient) {
+    return client.subscribe(hashQueryKey(key), callback);
 }
 
-export function fetchOrUsePreloadedData<T>(key: string, fn?: FetchFunction<T>) {
-    const preloaded = preloadedDataSources.find(d => d.key === key);
+export function fetchOrUsePreloadedData<T>(
+    key: QueryKey,
+    fn?: FetchFunction<T>,
+    client: DataCacheClient = defaultDataCacheClient
+) {
+    const cacheKey = hashQueryKey(key);
+    const preloaded = client.preloadedDataSources.find(d => hashQueryKey(d.key) === cacheKey);
     const fetchFn = fn ?? preloaded?.fn;
     if (fetchFn) {
-        prefetchData(key, fetchFn);
+        return prefetchData(key, fetchFn, { client });
     }
 }
 
 export function formatDataResponse<T>(
     { status, payload, optimisticData, retryCount, syncStatus, metrics }: DataState<T>,
-    key: string,
+    queryKey: QueryKey,
     fn: FetchFunction<T>,
-    options: any = {}
+    options: any = {},
+    client: DataCacheClient = options.client ?? defaultDataCacheClient
 ) {
+    const { dataCache, performanceMonitor } = client;
+    const key = hashQueryKey(queryKey);
     const currentStatus = dataCache.get(key)?.status || "idle";
     const defaultData = {
         isLoading: false,
+        isPending: false,
+        isIdle: false,
+        isPlaceholderData: false,
         data: null,
         error: null,
         isRefetching: false,
@@ -47,14 +52,16 @@ export function formatDataResponse<T>(
         retry: () => {},
         retryCount: retryCount || 0,
         syncStatus: syncStatus || "online",
-        isConnected: true,
+        isConnected: false,
+        connectionState: "closed",
+        reconnect: () => {},
         metrics: metrics || performanceMonitor.getMetrics(),
     };
-    
+
     const statusResponse: Record<string, any> = {
-        idle: { ...defaultData, isLoading: true },
+        idle: { ...defaultData, isLoading: true, isPending: true },
         isRefetching: { ...defaultData, isRefetching: true, data: optimisticData || payload },
-        loading: { ...defaultData, isLoading: true },
+        loading: { ...defaultData, isLoading: true, isPending: true },
         error: { ...defaultData, error: payload },
         success: { ...defaultData, data: optimisticData || payload },
     };
@@ -62,9 +69,12 @@ export function formatDataResponse<T>(
     const response = {
         ...statusResponse[status],
         refetch: () => {
-            if (currentStatus !== "loading" && currentStatus !== "isRefetching") {
+            if (currentStatus === "success") {
+                // Keep the current payload visible (and suspense from falling back) while refetching
+                prefetchData(queryKey, fn, { refetching: true, client });
+            } else if (currentStatus !== "loading" && currentStatus !== "isRefetching") {
                 dataCache.set(key, { status: "idle", payload: null });
-                fetchOrUsePreloadedData(key, fn);
+                fetchOrUsePreloadedData(queryKey, fn, client);
             }
         },
         // Enhancement methods
@@ -78,7 +88,7 @@ export function formatDataResponse<T>(
                     optimisticData: updatedData,
                     status: "isRefetching"
                 });
-                
+
                 // Execute mutation
                 mutationFn().then(() => {
                     // Clear optimistic data on success
@@ -101,19 +111,19 @@ export function formatDataResponse<T>(
                         });
                     }
                 });
-                
-                window.dispatchEvent(new Event("dataFetched"));
+
+                client.notify(key);
             }
         },
         retry: () => {
             const currentState = dataCache.get(key);
             if (currentState && currentState.status === "error") {
-                dataCache.set(key, { 
-                    status: "idle", 
+                dataCache.set(key, {
+                    status: "idle",
                     payload: null,
                     retryCount: (currentState.retryCount || 0) + 1
                 });
-                fetchOrUsePreloadedData(key, fn);
+                fetchOrUsePreloadedData(queryKey, fn, client);
             }
         }
     };
@@ -121,10 +131,15 @@ export function formatDataResponse<T>(
     return response;
 }
 
-export function clearDataCache() {
-    dataCache.clear();
-    advancedCache.invalidate();
-    performanceMonitor.resetMetrics();
+export function clearDataCache(client: DataCacheClient = defaultDataCacheClient) {
+    client.clear();
+}
+
+export function invalidateQueries(
+    filters: InvalidateQueriesFilters = {},
+    client: DataCacheClient = defaultDataCacheClient
+) {
+    client.invalidateQueries(filters);
 }
 
 // Enhancement exports
@@ -0,0 +1,417 @@
+import {
+  DataState,
+  FetchFunction,
+  UniversalInfiniteState,
+  UseDataOptions,
+  DataCacheClientConfig,
+  QueryObserver,
+  InvalidateQueriesFilters,
+  CacheEntryType,
+  CacheEvent,
+  RevalidationEvent,
+  MutationQueueEvent,
+  RetryConfig
+} from "./types";
+import {
+  createPerformanceMonitor,
+  createAdvancedCacheManager,
+  createBackgroundSyncManager,
+  createPollingManager,
+  createCircuitBreakerManager,
+  createFetchScheduler,
+  focusManager,
+  onlineManager,
+  PerformanceMonitor,
+  AdvancedCacheManager,
+  BackgroundSyncManager,
+  PollingManager,
+  CircuitBreakerManager,
+  FetchScheduler
+} from "./enhancements";
+import { QueryKey, hashQueryKey, matchQueryKey } from "./queryKey";
+import { prefetchData } from "./prefetch";
+import { createRealtimeConnectionPool, RealtimeConnectionPool } from "./realtime";
+import { isServer } from "./utils";
+
+const defaultCacheTime = 5 * 60 * 1000;
+const defaultRevalidationThrottleTime = 1000;
+
+// Owns every cache map and manager so that tests, micro-frontends and
+// server requests can each run against an isolated cache.
+export class DataCacheClient {
+  readonly dataCache = new Map<string, DataState<any>>();
+  readonly infiniteCache = new Map<string, UniversalInfiniteState<any>>();
+  readonly preloadedDataSources: { key: QueryKey; fn: FetchFunction<any> }[] = [];
+
+  readonly performanceMonitor: PerformanceMonitor;
+  readonly advancedCache: AdvancedCacheManager;
+  readonly backgroundSync: BackgroundSyncManager;
+  readonly pollingManager: PollingManager = createPollingManager();
+  // Disabled unless the client config has a `circuitBreaker`
+  readonly circuitBreaker: CircuitBreakerManager;
+  // Global and per-host concurrency limits for every fetch of this client
+  readonly fetchScheduler: FetchScheduler;
+  // One realtime connection per URL, shared by every hook of this client
+  readonly realtimeConnections: RealtimeConnectionPool = createRealtimeConnectionPool(this);
+
+  defaultOptions: UseDataOptions;
+
+  // Original (unhashed) key, last fetch function and retry options for every hash seen
+  private queries = new Map<string, { queryKey: QueryKey; fetchFn?: FetchFunction<any>; retryConfig?: Partial<RetryConfig> }>();
+  private observers: Record<CacheEntryType, Map<string, Set<QueryObserver>>> = {
+    data: new Map(),
+    infinite: new Map()
+  };
+  // Pending evictions of entries that lost their last observer
+  private gcTimers: Record<CacheEntryType, Map<string, ReturnType<typeof setTimeout>>> = {
+    data: new Map(),
+    infinite: new Map()
+  };
+  private cacheTimes: Record<CacheEntryType, Map<string, number>> = {
+    data: new Map(),
+    infinite: new Map()
+  };
+  private listeners: Record<CacheEntryType, Map<string, Set<() => void>>> = {
+    data: new Map(),
+    infinite: new Map()
+  };
+  private eventListeners = new Set<(event: CacheEvent) => void>();
+  // Focus/online subscriptions, held only while some key is observed
+  private stopRevalidation?: () => void;
+  private lastRevalidation: Record<RevalidationEvent, number> = { focus: 0, reconnect: 0 };
+  private revalidationThrottleTime: number;
+
+  constructor(config: DataCacheClientConfig = {}) {
+    this.defaultOptions = config.defaultOptions || {};
+    this.revalidationThrottleTime = config.revalidationThrottleTime ?? defaultRevalidationThrottleTime;
+    this.performanceMonitor = createPerformanceMonitor({ enabled: true, ...config.metrics });
+    this.circuitBreaker = createCircuitBreakerManager({ enabled: !!config.circuitBreaker, ...config.circuitBreaker });
+    this.performanceMonitor.trackCircuitBreaker(this.circuitBreaker);
+    this.fetchScheduler = createFetchScheduler(config.scheduler);
+    this.advancedCache = createAdvancedCacheManager(config.cache);
+    this.backgroundSync = createBackgroundSyncManager(config.backgroundSync);
+    this.backgroundSync.subscribe((event) => this.applyQueuedMutation(event));
+  }
+
+  /**
+   * Registers `callback` for changes to a single cache entry. Only listeners
+   * of the key passed to `notify` run, so a fetch for one key does not make
+   * every mounted hook re-read its snapshot.
+   */
+  subscribe(hash: string, callback: () => void, cache: CacheEntryType = "data"): () => void {
+    const registry = this.listeners[cache];
+    let listeners = registry.get(hash);
+    if (!listeners) {
+      listeners = new Set();
+      registry.set(hash, listeners);
+    }
+    listeners.add(callback);
+
+    return () => {
+      listeners!.delete(callback);
+      if (listeners!.size === 0 && registry.get(hash) === listeners) {
+        registry.delete(hash);
+      }
+    };
+  }
+
+  notify(hash: string, cache: CacheEntryType = "data"): void {
+    this.emit({ type: "updated", cache, key: hash, queryKey: this.getQueryKey(hash) });
+
+    const listeners = this.listeners[cache].get(hash);
+    if (!listeners) return;
+    // Copy first: a listener may unsubscribe while we iterate
+    Array.from(listeners).forEach((listener) => listener());
+  }
+
+  subscribeInfinite(hash: string, callback: () => void): () => void {
+    return this.subscribe(hash, callback, "infinite");
+  }
+
+  notifyInfinite(hash: string): void {
+    this.notify(hash, "infinite");
+  }
+
+  registerQuery(queryKey: QueryKey, fetchFn?: FetchFunction<any>, retryConfig?: Partial<RetryConfig> | null): string {
+    const hash = hashQueryKey(queryKey);
+    const existing = this.queries.get(hash);
+    this.queries.set(hash, {
+      queryKey,
+      fetchFn: fetchFn ?? existing?.fetchFn,
+      // null clears the retry options of a hook that stopped retrying
+      retryConfig: retryConfig === undefined ? existing?.retryConfig : retryConfig ?? undefined
+    });
+    return hash;
+  }
+
+  // Retry options of the hook that last rendered `hash`, used by fetches started outside it
+  getRetryConfig(hash: string): Partial<RetryConfig> | undefined {
+    return this.queries.get(hash)?.retryConfig;
+  }
+
+  getQueryKey(hash: string): QueryKey {
+    return this.queries.get(hash)?.queryKey ?? hash;
+  }
+
+  addObserver(hash: string, observer: QueryObserver, cacheTime?: number): () => void {
+    return this.observe("data", hash, observer, cacheTime);
+  }
+
+  addInfiniteObserver(hash: string, observer: QueryObserver, cacheTime?: number): () => void {
+    return this.observe("infinite", hash, observer, cacheTime);
+  }
+
+  getObserverCount(hash: string, cache: CacheEntryType = "data"): number {
+    return this.observers[cache].get(hash)?.size ?? 0;
+  }
+
+  private observe(cache: CacheEntryType, hash: string, observer: QueryObserver, cacheTime?: number): () => void {
+    const registry = this.observers[cache];
+    this.cancelEviction(cache, hash);
+    if (cacheTime !== undefined) {
+      this.cacheTimes[cache].set(hash, cacheTime);
+    }
+
+    let observers = registry.get(hash);
+    if (!observers) {
+      observers = new Set();
+      registry.set(hash, observers);
+    }
+    observers.add(observer);
+    this.startRevalidation();
+
+    return () => {
+      observers!.delete(observer);
+      if (observers!.size === 0 && registry.get(hash) === observers) {
+        registry.delete(hash);
+        this.scheduleEviction(hash, cache);
+
+        if (this.observers.data.size === 0 && this.observers.infinite.size === 0) {
+          this.stopRevalidation?.();
+          this.stopRevalidation = undefined;
+        }
+
+        // Deferred so that a strict-mode unmount/remount keeps its request
+        if (cache === "data") {
+          setTimeout(() => {
+            if (this.getObserverCount(hash) === 0) this.cancelQuery(hash);
+          }, 0);
+        }
+      }
+    };
+  }
+
+  private startRevalidation(): void {
+    if (this.stopRevalidation || isServer) return;
+
+    const unsubscribeFocus = focusManager.subscribe(() => this.revalidate("focus"));
+    const unsubscribeOnline = onlineManager.subscribe((online) => {
+      if (online) this.revalidate("reconnect");
+    });
+    this.stopRevalidation = () => {
+      unsubscribeFocus();
+      unsubscribeOnline();
+    };
+  }
+
+  /**
+   * Refetches every observed key whose observers ask for it on `event`
+   * (usually: the data is stale and the option is not disabled). Calls within
+   * the throttle window are ignored so rapid focus toggles cost one round.
+   * Focus is ignored while offline.
+   */
+  revalidate(event: RevalidationEvent): void {
+    // An offline refetch would only replace cached data with a network error;
+    // the reconnect revalidation catches up instead
+    if (event === "focus" && !onlineManager.isOnline()) return;
+
+    const now = Date.now();
+    if (now - this.lastRevalidation[event] < this.revalidationThrottleTime) return;
+    this.lastRevalidation[event] = now;
+
+    (Object.keys(this.observers) as CacheEntryType[]).forEach((cache) => {
+      this.observers[cache].forEach((observers) => {
+        // One request per key, however many components observe it
+        for (const observer of observers) {
+          if (observer.shouldRefetchOn?.(event)) {
+            observer.refetch();
+            break;
+          }
+        }
+      });
+    });
+  }
+
+  /**
+   * Aborts the request in flight for `hash` and restores the entry to what it
+   * was before the fetch started: its previous payload or error when
+   * refetching, otherwise idle.
+   */
+  cancelQuery(hash: string): void {
+    const state = this.dataCache.get(hash);
+    if (!state?.controller || (state.status !== "loading" && state.status !== "isRefetching")) return;
+
+    const { controller, promise, statusBeforeRefetch, ...rest } = state;
+    controller.abort();
+    this.dataCache.set(hash, rest.status !== "isRefetching" || !statusBeforeRefetch
+      ? { status: "idle", payload: null }
+      : statusBeforeRefetch === "error"
+        ? { ...rest, status: "error", payload: rest.lastError }
+        : { ...rest, status: "success" });
+    this.notify(hash);
+  }
+
+  /**
+   * Evicts the entry once it has gone `cacheTime` without observers. Called
+   * when the last hook unmounts and for entries created by prefetching alone.
+   */
+  scheduleEviction(hash: string, cache: CacheEntryType = "data"): void {
+    // Server caches live for one request; timers would only keep the process busy
+    if (isServer || this.getObserverCount(hash, cache) > 0) return;
+
+    const cacheTime = this.cacheTimes[cache].get(hash) ?? this.defaultOptions.cacheTime ?? defaultCacheTime;
+    if (cacheTime === Infinity) return;
+
+    this.cancelEviction(cache, hash);
+    this.gcTimers[cache].set(hash, setTimeout(() => this.evict(cache, hash), cacheTime));
+  }
+
+  private cancelEviction(cache: CacheEntryType, hash: string): void {
+    const timer = this.gcTimers[cache].get(hash);
+    if (timer !== undefined) {
+      clearTimeout(timer);
+      this.gcTimers[cache].delete(hash);
+    }
+  }
+
+  private evict(cache: CacheEntryType, hash: string): void {
+    this.gcTimers[cache].delete(hash);
+    if (this.getObserverCount(hash, cache) > 0) return;
+
+    const store: Map<string, DataState<any> | UniversalInfiniteState<any>> =
+      cache === "data" ? this.dataCache : this.infiniteCache;
+    const state = store.get(hash);
+    if (!state) return;
+
+    state.controller?.abort();
+    store.delete(hash);
+    this.cacheTimes[cache].delete(hash);
+
+    const queryKey = this.getQueryKey(hash);
+    if (!this.dataCache.has(hash) && !this.infiniteCache.has(hash)) {
+      this.queries.delete(hash);
+    }
+
+    this.emit({ type: "evicted", cache, key: hash, queryKey });
+  }
+
+  subscribeEvents(listener: (event: CacheEvent) => void): () => void {
+    this.eventListeners.add(listener);
+    return () => {
+      this.eventListeners.delete(listener);
+    };
+  }
+
+  private emit(event: CacheEvent): void {
+    this.eventListeners.forEach((listener) => listener(event));
+  }
+
+  /**
+   * Marks every matching `dataCache` and `infiniteCache` entry as stale and
+   * refetches them according to `refetchType`. Inactive infinite queries are
+   * only marked; they refetch when a hook mounts them again.
+   */
+  invalidateQueries(filters: InvalidateQueriesFilters = {}): void {
+    const refetchType = filters.refetchType ?? "active";
+    const matches = (hash: string, state: DataState<any> | UniversalInfiniteState<any>) => {
+      const queryKey = this.getQueryKey(hash);
+      if (filters.key !== undefined && !matchQueryKey(queryKey, filters.key, filters.exact)) return false;
+      return filters.predicate ? filters.predicate(queryKey, state) : true;
+    };
+
+    this.dataCache.forEach((state, hash) => {
+      if (!matches(hash, state)) return;
+      this.dataCache.set(hash, { ...state, isInvalidated: true });
+      this.notify(hash);
+
+      const observers = this.observers.data.get(hash);
+      if (refetchType === "none" || state.status === "idle") return;
+      // A request already in flight may have started before the data changed,
+      // so it is replaced rather than joined
+      if (observers?.size) {
+        // Observers of one key share the same entry, so a single refetch is enough
+        observers.values().next().value!.refetch({ cancelRefetch: true });
+      } else if (refetchType === "all" && state.status !== "loading") {
+        const fetchFn = this.queries.get(hash)?.fetchFn;
+        if (fetchFn) {
+          prefetchData(this.getQueryKey(hash), fetchFn, { refetching: true, cancelRefetch: true, client: this });
+        }
+      }
+    });
+
+    this.infiniteCache.forEach((state, hash) => {
+      if (!matches(hash, state)) return;
+      this.infiniteCache.set(hash, { ...state, isInvalidated: true });
+      this.notifyInfinite(hash);
+
+      const observers = this.observers.infinite.get(hash);
+      if (refetchType === "none" || !observers?.size) return;
+      observers.values().next().value!.refetch();
+    });
+  }
+
+  /**
+   * Mirrors the offline mutation queue in the cache: keys a queued mutation
+   * touches show `syncStatus: "syncing"` until it is replayed, then its
+   * optimistic value is committed (or dropped) and its keys are invalidated.
+   */
+  private applyQueuedMutation(event: MutationQueueEvent): void {
+    const { mutation } = event;
+
+    if (event.type !== "queued" && mutation.optimisticKey !== undefined) {
+      const key = hashQueryKey(mutation.optimisticKey);
+      const state = this.dataCache.get(key);
+      if (state && state.optimisticData !== undefined) {
+        this.dataCache.set(key, {
+          ...state,
+          payload: event.type === "success" ? state.optimisticData : state.payload,
+          optimisticData: undefined
+        });
+      }
+    }
+
+    const pending = new Set<string>();
+    this.backgroundSync.getQueue().forEach((queued) => {
+      [queued.optimisticKey, ...(queued.invalidates ?? [])].forEach((queryKey) => {
+        if (queryKey !== undefined) pending.add(hashQueryKey(queryKey));
+      });
+    });
+
+    [mutation.optimisticKey, ...(mutation.invalidates ?? [])].forEach((queryKey) => {
+      if (queryKey === undefined) return;
+      const key = hashQueryKey(queryKey);
+      const state = this.dataCache.get(key);
+      if (!state) return;
+      this.dataCache.set(key, { ...state, syncStatus: pending.has(key) ? "syncing" : undefined });
+      this.notify(key);
+    });
+
+    if (event.type === "success") {
+      mutation.invalidates?.forEach((key) => this.invalidateQueries({ key }));
+    }
+  }
+
+  clear(): void {
+    this.dataCache.clear();
+    this.advancedCache.invalidate();
+    this.performanceMonitor.resetMetrics();
+  }
+}
+
+export function createDataCacheClient(config: DataCacheClientConfig = {}): DataCacheClient {
+  return new DataCacheClient(config);
+}
+
+// Backs the module-level exports (`dataCache`, `universalInfiniteCache`, ...)
+// for code that does not use a provider.
+export const defaultDataCacheClient = createDataCacheClient();
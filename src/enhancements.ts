@@ -5,10 +5,69 @@ import {
   RealtimeConfig, 
   CacheConfig, 
   MetricsConfig,
-  PerformanceMetrics 
+  PerformanceMetrics,
+  PollingSubscriber,
+  QueuedMutation,
+  MutationQueueEvent,
+  RealtimeMessageMeta,
+  RealtimeTransport,
+  RealtimeTransportFactory,
+  RealtimeTransportHandlers,
+  RealtimeTransportOption,
+  RealtimeConnectionState,
+  CircuitBreakerConfig,
+  CircuitBreakerSnapshot,
+  CircuitState,
+  FetchSchedulerConfig
 } from './types';
+import type { QueryKey } from './queryKey';
+
+const defaultQueueStorageKey = 'react-data-cache-mutations';
 
 // Retry Logic
+function createAbortError(): Error {
+  const error = new Error('The operation was aborted');
+  error.name = 'AbortError';
+  return error;
+}
+
+// Resolves after `ms`, or rejects with an AbortError as soon as `signal` aborts
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function getErrorStatus(error: any): number | undefined {
+  const status = error?.status ?? error?.statusCode ?? error?.response?.status;
+  return typeof status === 'number' ? status : undefined;
+}
+
+// Retry-After in ms, read from fetch Responses, axios-style errors or a `retryAfter` field
+function getRetryAfter(error: any): number | undefined {
+  const readHeader = (headers: any) =>
+    typeof headers?.get === 'function' ? headers.get('Retry-After') : headers?.['retry-after'];
+  const value = error?.retryAfter ?? readHeader(error?.headers) ?? readHeader(error?.response?.headers);
+  if (value === undefined || value === null || value === '') return undefined;
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
 export class RetryManager {
   private config: RetryConfig;
   private currentAttempt = 0;
@@ -17,32 +76,64 @@ export class RetryManager {
     this.config = config;
   }
 
-  async execute<T>(fn: () => Promise<T>): Promise<T> {
+  // Runs `fn` until it succeeds or retrying stops; aborting `signal` ends the wait between attempts
+  async execute<T>(fn: () => Promise<T>, signal?: AbortSignal): Promise<T> {
     this.currentAttempt = 0;
-    
-    while (this.currentAttempt < this.config.attempts) {
+    let previousDelay: number | undefined;
+
+    for (;;) {
+      if (signal?.aborted) throw createAbortError();
+
       try {
         const result = await fn();
         return result;
       } catch (error) {
         this.currentAttempt++;
-        
-        if (this.currentAttempt >= this.config.attempts) {
-          this.config.onError?.(error, this.currentAttempt);
+        this.config.onError?.(error, this.currentAttempt);
+
+        if (signal?.aborted || !this.shouldRetry(this.currentAttempt, error)) {
           throw error;
         }
-        
-        this.config.onError?.(error, this.currentAttempt);
-        
-        const delay = this.config.exponentialBackoff 
-          ? this.config.delay * Math.pow(2, this.currentAttempt - 1)
-          : this.config.delay;
-        
-        await new Promise(resolve => setTimeout(resolve, delay));
+
+        previousDelay = this.getDelay(this.currentAttempt, error, previousDelay);
+        await wait(previousDelay, signal);
       }
     }
-    
-    throw new Error('Max retry attempts reached');
+  }
+
+  private shouldRetry(failureCount: number, error: any): boolean {
+    // Retrying into an open circuit would only fail fast again
+    if (error?.name === 'AbortError' || error?.name === 'CircuitOpenError') return false;
+
+    const { retry, attempts } = this.config;
+    if (typeof retry === 'function') return retry(failureCount, error);
+    if (retry === false) return false;
+    if (retry !== true && failureCount > (typeof retry === 'number' ? retry : attempts - 1)) return false;
+
+    // Client errors will fail the same way again, except timeouts and rate limits
+    const status = getErrorStatus(error);
+    return status === undefined || status >= 500 || status === 408 || status === 429;
+  }
+
+  private getDelay(attempt: number, error: any, previousDelay?: number): number {
+    const { delay, exponentialBackoff, jitter = 'full', maxDelay = 30000, respectRetryAfter = true } = this.config;
+
+    const retryAfter = respectRetryAfter ? getRetryAfter(error) : undefined;
+    if (retryAfter !== undefined) return retryAfter;
+
+    if (typeof delay === 'function') return Math.min(maxDelay, delay(attempt, error));
+
+    const backoff = Math.min(maxDelay, exponentialBackoff ? delay * Math.pow(2, attempt - 1) : delay);
+    switch (jitter) {
+      case 'full':
+        return Math.random() * backoff;
+      case 'decorrelated': {
+        const previous = previousDelay ?? delay;
+        return Math.min(maxDelay, delay + Math.random() * Math.max(0, previous * 3 - delay));
+      }
+      default:
+        return backoff;
+    }
   }
 
   getCurrentAttempt(): number {
@@ -96,25 +187,123 @@ export class OptimisticUpdateManager<T> {
   }
 }
 
+// Focus and network status
+// One window listener is shared by every client and attached only while
+// something subscribes. setFocused/setOnline override detection (tests, React Native).
+export class FocusManager {
+  private listeners = new Set<() => void>();
+  private focused?: boolean;
+  private teardown?: () => void;
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    if (this.listeners.size === 1 && typeof window !== 'undefined') {
+      const onFocus = () => {
+        if (this.isFocused()) this.listeners.forEach(current => current());
+      };
+      window.addEventListener('visibilitychange', onFocus);
+      window.addEventListener('focus', onFocus);
+      this.teardown = () => {
+        window.removeEventListener('visibilitychange', onFocus);
+        window.removeEventListener('focus', onFocus);
+      };
+    }
+
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0) {
+        this.teardown?.();
+        this.teardown = undefined;
+      }
+    };
+  }
+
+  setFocused(focused?: boolean): void {
+    this.focused = focused;
+    if (this.isFocused()) this.listeners.forEach(listener => listener());
+  }
+
+  isFocused(): boolean {
+    if (this.focused !== undefined) return this.focused;
+    return typeof document === 'undefined' || document.visibilityState !== 'hidden';
+  }
+}
+
+export class OnlineManager {
+  private listeners = new Set<(online: boolean) => void>();
+  private online?: boolean;
+  private teardown?: () => void;
+
+  subscribe(listener: (online: boolean) => void): () => void {
+    this.listeners.add(listener);
+    if (this.listeners.size === 1 && typeof window !== 'undefined') {
+      const onOnline = () => this.listeners.forEach(current => current(true));
+      const onOffline = () => this.listeners.forEach(current => current(false));
+      window.addEventListener('online', onOnline);
+      window.addEventListener('offline', onOffline);
+      this.teardown = () => {
+        window.removeEventListener('online', onOnline);
+        window.removeEventListener('offline', onOffline);
+      };
+    }
+
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0) {
+        this.teardown?.();
+        this.teardown = undefined;
+      }
+    };
+  }
+
+  setOnline(online?: boolean): void {
+    const wasOnline = this.isOnline();
+    this.online = online;
+    if (this.isOnline() !== wasOnline) {
+      this.listeners.forEach(listener => listener(this.isOnline()));
+    }
+  }
+
+  isOnline(): boolean {
+    if (this.online !== undefined) return this.online;
+    return typeof navigator === 'undefined' || navigator.onLine !== false;
+  }
+}
+
+export const focusManager = new FocusManager();
+export const onlineManager = new OnlineManager();
+
 // Background Sync
 export class BackgroundSyncManager {
   private config: BackgroundSyncConfig;
   private syncInterval?: ReturnType<typeof setInterval>;
-  private _isOnline = navigator.onLine;
+  private _isOnline = onlineManager.isOnline();
+  private mutationFns = new Map<string, (variables: any) => Promise<any>>();
+  private queue: QueuedMutation[] = [];
+  // Callers of enqueue in this page session, resolved when their mutation is replayed
+  private waiters = new Map<string, { resolve: (data: any) => void; reject: (error: any) => void }>();
+  private listeners = new Set<(event: MutationQueueEvent) => void>();
+  private replaying?: Promise<void>;
+  // Pending replay after a transient failure, or while waiting for a function, while online
+  private replayTimer?: ReturnType<typeof setTimeout>;
+  // When replay first found each queued mutation without a registered function
+  private unregisteredSince = new Map<string, number>();
+  readonly restored: Promise<void>;
 
   constructor(config: BackgroundSyncConfig) {
     this.config = config;
     this.setupNetworkListeners();
+    this.restored = this.restoreQueue();
   }
 
   private setupNetworkListeners(): void {
-    window.addEventListener('online', () => {
-      this._isOnline = true;
-      this.sync();
-    });
+    if (typeof window === 'undefined') return;
 
-    window.addEventListener('offline', () => {
-      this._isOnline = false;
+    onlineManager.subscribe(online => {
+      this._isOnline = online;
+      // Coming back online replays right away; going offline waits for that
+      this.cancelScheduledReplay();
+      if (online) this.sync();
     });
   }
 
@@ -138,7 +327,10 @@ export class BackgroundSyncManager {
   }
 
   private async sync(): Promise<void> {
-    if (!this.config.enabled || !this._isOnline) return;
+    if (!this._isOnline) return;
+
+    await this.replayQueue();
+    if (!this.config.enabled) return;
 
     try {
       // This would be implemented based on the specific sync strategy
@@ -148,6 +340,186 @@ export class BackgroundSyncManager {
     }
   }
 
+  // Mutation queue
+
+  // Registers the function queued mutations named `mutationKey` replay with.
+  // Register at startup so mutations queued before a reload can be replayed.
+  registerMutation<TVariables>(mutationKey: string, fn: (variables: TVariables) => Promise<any>): void {
+    this.mutationFns.set(mutationKey, fn);
+    // Mutations restored from storage may have been waiting for this function
+    const head = this.queue[0];
+    const isWaitingForFn = head?.mutationKey === mutationKey && this.unregisteredSince.has(head.id);
+    if (isWaitingForFn) this.cancelScheduledReplay();
+    if (this._isOnline && !this.replayTimer) this.replayQueue();
+  }
+
+  hasMutation(mutationKey: string): boolean {
+    return this.mutationFns.has(mutationKey);
+  }
+
+  // Stores the mutation and resolves with its result once it has been replayed
+  enqueue(mutation: Omit<QueuedMutation, 'id' | 'createdAt' | 'attempts'>): Promise<any> {
+    const queued: QueuedMutation = {
+      ...mutation,
+      id: `${Date.now()}-${Math.random().toString(36).slice(2)}`,
+      createdAt: Date.now(),
+      attempts: 0
+    };
+    this.queue.push(queued);
+    this.saveQueue();
+    this.emit({ type: 'queued', mutation: queued });
+
+    const result = new Promise((resolve, reject) => {
+      this.waiters.set(queued.id, { resolve, reject });
+    });
+    // Mutations queued behind others while online go out as soon as those have
+    if (this._isOnline && !this.replayTimer) this.replayQueue();
+    return result;
+  }
+
+  getQueue(): QueuedMutation[] {
+    return [...this.queue];
+  }
+
+  subscribe(listener: (event: MutationQueueEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Replays queued mutations one at a time, in the order they were issued
+  replayQueue(): Promise<void> {
+    if (!this.replaying) {
+      this.replaying = this.restored
+        .then(() => this.replayNext())
+        .finally(() => {
+          this.replaying = undefined;
+        });
+    }
+    return this.replaying;
+  }
+
+  private async replayNext(): Promise<void> {
+    while (this.queue.length > 0 && this._isOnline) {
+      const mutation = this.queue[0];
+      const fn = this.mutationFns.get(mutation.mutationKey);
+      if (!fn) {
+        // Wait a while for the function to be registered (e.g. a lazily loaded
+        // module), then fail the mutation so it stops holding back the rest
+        const since = this.unregisteredSince.get(mutation.id) ?? Date.now();
+        this.unregisteredSince.set(mutation.id, since);
+        const remaining = since + (this.config.unregisteredMutationTimeout ?? 30000) - Date.now();
+        if (remaining > 0) {
+          this.scheduleReplayIn(remaining);
+          return;
+        }
+
+        this.unregisteredSince.delete(mutation.id);
+        const error = new Error(`No mutation function registered for "${mutation.mutationKey}"`);
+        this.dequeue(mutation);
+        this.config.onMutationFailed?.(error, mutation);
+        this.emit({ type: 'failed', mutation, error });
+        this.waiters.get(mutation.id)?.reject(error);
+        this.waiters.delete(mutation.id);
+        continue;
+      }
+      this.unregisteredSince.delete(mutation.id);
+
+      try {
+        const data = await fn(mutation.variables);
+        this.dequeue(mutation);
+        this.emit({ type: 'success', mutation, data });
+        this.waiters.get(mutation.id)?.resolve(data);
+      } catch (error) {
+        mutation.attempts++;
+        const isConflict = this.config.isConflict
+          ? this.config.isConflict(error, mutation)
+          : (error as any)?.status === 409;
+
+        if (isConflict) {
+          this.dequeue(mutation);
+          this.config.onMutationConflict?.(error, mutation);
+          this.emit({ type: 'conflict', mutation, error });
+          this.waiters.get(mutation.id)?.reject(error);
+        } else if (mutation.attempts >= (this.config.maxReplayAttempts ?? 3)) {
+          this.dequeue(mutation);
+          this.config.onMutationFailed?.(error, mutation);
+          this.emit({ type: 'failed', mutation, error });
+          this.waiters.get(mutation.id)?.reject(error);
+        } else {
+          // Keep the order: later mutations wait for this one to go through
+          this.saveQueue();
+          this.scheduleReplay(mutation.attempts);
+          return;
+        }
+      } finally {
+        if (!this.queue.includes(mutation)) this.waiters.delete(mutation.id);
+      }
+    }
+  }
+
+  // Retries a transient failure with exponential backoff while the app stays online
+  private scheduleReplay(attempts: number): void {
+    this.scheduleReplayIn(Math.min(
+      (this.config.replayRetryDelay ?? 1000) * Math.pow(2, attempts - 1),
+      this.config.maxReplayRetryDelay ?? 30000
+    ));
+  }
+
+  private scheduleReplayIn(delay: number): void {
+    this.cancelScheduledReplay();
+    this.replayTimer = setTimeout(() => {
+      this.replayTimer = undefined;
+      this.replayQueue();
+    }, delay);
+  }
+
+  private cancelScheduledReplay(): void {
+    if (this.replayTimer !== undefined) {
+      clearTimeout(this.replayTimer);
+      this.replayTimer = undefined;
+    }
+  }
+
+  private dequeue(mutation: QueuedMutation): void {
+    this.queue = this.queue.filter(queued => queued.id !== mutation.id);
+    this.saveQueue();
+  }
+
+  private emit(event: MutationQueueEvent): void {
+    this.listeners.forEach(listener => listener(event));
+  }
+
+  private saveQueue(): void {
+    const { storage, storageKey = defaultQueueStorageKey } = this.config;
+    if (!storage) return;
+
+    try {
+      Promise.resolve(storage.setItem(storageKey, JSON.stringify(this.queue))).catch(error => {
+        console.error('Failed to persist mutation queue:', error);
+      });
+    } catch (error) {
+      console.error('Failed to persist mutation queue:', error);
+    }
+  }
+
+  private async restoreQueue(): Promise<void> {
+    const { storage, storageKey = defaultQueueStorageKey } = this.config;
+    if (!storage) return;
+
+    try {
+      const raw = await storage.getItem(storageKey);
+      if (!raw) return;
+      const stored: QueuedMutation[] = JSON.parse(raw);
+      // Mutations enqueued before the restore finished go after the stored ones
+      const storedIds = new Set(stored.map(mutation => mutation.id));
+      this.queue = [...stored, ...this.queue.filter(mutation => !storedIds.has(mutation.id))];
+    } catch (error) {
+      console.error('Failed to restore mutation queue:', error);
+    }
+  }
+
   get isOnline(): boolean {
     return this._isOnline;
   }
@@ -160,10 +532,14 @@ export class BackgroundSyncManager {
 //  -time Subscriptions
 export class RealtimeManager {
   private config: RealtimeConfig;
-  private ws?: WebSocket;
+  private transport?: RealtimeTransport;
+  private state: RealtimeConnectionState = 'closed';
+  private stateListeners = new Set<(state: RealtimeConnectionState) => void>();
   private reconnectAttempts = 0;
-  private maxReconnectAttempts = 5;
-  private reconnectDelay = 1000;
+  private reconnectTimer?: ReturnType<typeof setTimeout>;
+  private heartbeatTimer?: ReturnType<typeof setInterval>;
+  private pongTimer?: ReturnType<typeof setTimeout>;
+  private stopWatchingNetwork?: () => void;
 
   constructor(config: RealtimeConfig) {
     this.config = config;
@@ -171,67 +547,337 @@ export class RealtimeManager {
 
   connect(): void {
     if (!this.config.enabled || !this.config.subscriptionUrl) return;
+    // Already connected or on its way there
+    if (this.state !== 'closed' && this.state !== 'failed') return;
 
-    try {
-      this.ws = new WebSocket(this.config.subscriptionUrl);
-      
-      this.ws.onopen = () => {
-        this.reconnectAttempts = 0;
-        this.config.onConnect?.();
-      };
+    this.reconnectAttempts = 0;
+    this.watchNetwork();
+    if (!onlineManager.isOnline()) {
+      // Connects when the network comes back
+      this.setState('reconnecting');
+      return;
+    }
+    this.setState('connecting');
+    this.open();
+  }
 
-      this.ws.onmessage = (event) => {
-        try {
-          const data = JSON.parse(event.data);
-          this.config.onUpdate?.(data);
-        } catch (error) {
-          console.error('Failed to parse real-time message:', error);
-        }
-      };
+  // Drops the current connection and connects again right away, resetting the backoff
+  reconnect(): void {
+    if (!this.config.enabled || !this.config.subscriptionUrl) return;
 
-      this.ws.onclose = () => {
-        this.config.onDisconnect?.();
-        this.attemptReconnect();
-      };
+    this.clearTimers();
+    this.closeTransport();
+    this.reconnectAttempts = 0;
+    this.watchNetwork();
+    this.setState('connecting');
+    this.open();
+  }
 
-      this.ws.onerror = (error) => {
-        console.error('WebSocket error:', error);
-      };
+  // Closes the connection for good; nothing reconnects until connect() is called again
+  disconnect(): void {
+    this.clearTimers();
+    this.closeTransport();
+    this.stopWatchingNetwork?.();
+    this.stopWatchingNetwork = undefined;
+    this.setState('closed');
+  }
+
+  send(data: any): void {
+    if (this.transport && this.transport.isOpen()) {
+      this.transport.send(JSON.stringify(data));
+    }
+  }
+
+  isConnected(): boolean {
+    return this.state === 'open' && !!this.transport && this.transport.isOpen();
+  }
+
+  getState(): RealtimeConnectionState {
+    return this.state;
+  }
+
+  subscribe(listener: (state: RealtimeConnectionState) => void): () => void {
+    this.stateListeners.add(listener);
+    return () => {
+      this.stateListeners.delete(listener);
+    };
+  }
+
+  private open(): void {
+    try {
+      const transport = resolveRealtimeTransport(this.config.transport)(this.config.subscriptionUrl!);
+      this.transport = transport;
+
+      transport.connect({
+        onOpen: () => {
+          if (this.transport !== transport) return;
+          this.reconnectAttempts = 0;
+          this.setState('open');
+          this.startHeartbeat();
+          this.config.onConnect?.();
+        },
+        onMessage: (raw, meta) => {
+          if (this.transport !== transport) return;
+          // Any message proves the connection is alive
+          this.clearPongTimer();
+          try {
+            const data = JSON.parse(raw);
+            const isPong = this.config.heartbeat?.isPong ?? ((message: any) => message?.type === 'pong');
+            if (this.config.heartbeat && isPong(data)) return;
+            this.config.onUpdate?.(data, meta);
+          } catch (error) {
+            console.error('Failed to parse real-time message:', error);
+          }
+        },
+        onClose: () => {
+          if (this.transport !== transport) return;
+          this.handleDrop();
+        },
+        onError: (error) => {
+          console.error('Real-time transport error:', error);
+        }
+      });
     } catch (error) {
       console.error('Failed to connect to real-time subscription:', error);
+      this.handleDrop();
     }
   }
 
-  private attemptReconnect(): void {
-    if (this.reconnectAttempts >= this.maxReconnectAttempts) {
+  private handleDrop(): void {
+    const wasOpen = this.state === 'open';
+    this.clearTimers();
+    this.closeTransport();
+    if (wasOpen) this.config.onDisconnect?.();
+    this.scheduleReconnect();
+  }
+
+  private scheduleReconnect(): void {
+    // Offline: wait for the online event instead of burning attempts
+    if (!onlineManager.isOnline()) {
+      this.setState('reconnecting');
+      return;
+    }
+
+    const { delay = 1000, maxDelay = 30000, maxAttempts = Infinity } = this.config.reconnect || {};
+    if (this.reconnectAttempts >= maxAttempts) {
       console.error('Max reconnection attempts reached');
+      this.setState('failed');
       return;
     }
 
     this.reconnectAttempts++;
-    const delay = this.reconnectDelay * Math.pow(2, this.reconnectAttempts - 1);
+    const cappedDelay = Math.min(maxDelay, delay * Math.pow(2, this.reconnectAttempts - 1));
+    // Equal jitter keeps clients that dropped together from reconnecting together
+    const jitteredDelay = cappedDelay / 2 + Math.random() * (cappedDelay / 2);
 
-    setTimeout(() => {
-      this.connect();
-    }, delay);
+    this.setState('reconnecting');
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = undefined;
+      this.open();
+    }, jitteredDelay);
   }
 
-  disconnect(): void {
-    if (this.ws) {
-      this.ws.close();
-      this.ws = undefined;
+  private startHeartbeat(): void {
+    const { heartbeat } = this.config;
+    if (!heartbeat) return;
+
+    this.heartbeatTimer = setInterval(() => {
+      if (!this.transport?.isOpen() || this.pongTimer !== undefined) return;
+      this.send(heartbeat.message ?? { type: 'ping' });
+      this.pongTimer = setTimeout(() => {
+        this.pongTimer = undefined;
+        this.handleDrop();
+      }, heartbeat.timeout ?? 10000);
+    }, heartbeat.interval);
+  }
+
+  private watchNetwork(): void {
+    if (this.stopWatchingNetwork) return;
+
+    this.stopWatchingNetwork = onlineManager.subscribe(online => {
+      if (this.state === 'closed' || this.state === 'failed') return;
+
+      if (!online) {
+        const wasOpen = this.state === 'open';
+        this.clearTimers();
+        this.closeTransport();
+        if (wasOpen) this.config.onDisconnect?.();
+        this.setState('reconnecting');
+      } else if (!this.transport) {
+        this.clearTimers();
+        this.reconnectAttempts = 0;
+        this.open();
+      }
+    });
+  }
+
+  private clearPongTimer(): void {
+    if (this.pongTimer !== undefined) {
+      clearTimeout(this.pongTimer);
+      this.pongTimer = undefined;
     }
   }
 
-  send(data: any): void {
-    if (this.ws && this.ws.readyState === WebSocket.OPEN) {
-      this.ws.send(JSON.stringify(data));
+  private clearTimers(): void {
+    this.clearPongTimer();
+    if (this.heartbeatTimer !== undefined) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = undefined;
+    }
+    if (this.reconnectTimer !== undefined) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = undefined;
     }
   }
 
-  isConnected(): boolean {
-    return this.ws?.readyState === WebSocket.OPEN;
+  private closeTransport(): void {
+    if (this.transport) {
+      const transport = this.transport;
+      this.transport = undefined;
+      transport.close();
+    }
   }
+
+  private setState(state: RealtimeConnectionState): void {
+    if (this.state === state) return;
+    this.state = state;
+    this.config.onStateChange?.(state);
+    this.stateListeners.forEach(listener => listener(state));
+  }
+}
+
+// Realtime Transports
+export function createWebSocketTransport(protocols?: string | string[]): RealtimeTransportFactory {
+  return (url) => {
+    let ws: WebSocket | undefined;
+
+    return {
+      connect: (handlers) => {
+        ws = new WebSocket(url, protocols);
+        ws.onopen = () => handlers.onOpen();
+        ws.onmessage = (event) => handlers.onMessage(event.data, { event: 'message' });
+        ws.onclose = () => handlers.onClose();
+        ws.onerror = (error) => handlers.onError(error);
+      },
+      send: (data) => ws?.send(data),
+      close: () => {
+        if (!ws) return;
+        // An intentional close is not reported as a dropped connection
+        ws.onclose = null;
+        ws.close();
+        ws = undefined;
+      },
+      isOpen: () => !!ws && ws.readyState === WebSocket.OPEN
+    };
+  };
+}
+
+export interface EventSourceTransportOptions {
+  // Named event types to listen for besides unnamed "message" events
+  eventTypes?: string[];
+  withCredentials?: boolean;
+  // Query parameter carrying the last received event id when a new connection is opened (default: "lastEventId")
+  lastEventIdParam?: string;
+}
+
+// Server-Sent Events are receive-only: send() is a no-op
+export function createEventSourceTransport(options: EventSourceTransportOptions = {}): RealtimeTransportFactory {
+  const { eventTypes = [], withCredentials, lastEventIdParam = 'lastEventId' } = options;
+  // Shared by every connection of the factory so a reconnect resumes where the last one stopped
+  let lastEventId: string | undefined;
+
+  return (url) => {
+    let source: EventSource | undefined;
+
+    return {
+      connect: (handlers) => {
+        // EventSource only sends Last-Event-ID itself when it reconnects on its own
+        const resumeUrl = lastEventId === undefined
+          ? url
+          : `${url}${url.includes('?') ? '&' : '?'}${encodeURIComponent(lastEventIdParam)}=${encodeURIComponent(lastEventId)}`;
+        source = new EventSource(resumeUrl, { withCredentials });
+
+        const onEvent = (event: MessageEvent) => {
+          if (event.lastEventId) lastEventId = event.lastEventId;
+          handlers.onMessage(event.data, { event: event.type, lastEventId: event.lastEventId || undefined });
+        };
+        source.onopen = () => handlers.onOpen();
+        source.onmessage = onEvent;
+        eventTypes.forEach(type => source!.addEventListener(type, onEvent as EventListener));
+        source.onerror = (error) => {
+          // CONNECTING means the browser is already retrying; CLOSED means it gave up
+          if (source?.readyState === EventSource.CLOSED) {
+            handlers.onClose();
+          } else {
+            handlers.onError(error);
+          }
+        };
+      },
+      send: () => {},
+      close: () => {
+        source?.close();
+        source = undefined;
+      },
+      isOpen: () => !!source && source.readyState === EventSource.OPEN
+    };
+  };
+}
+
+// In-memory transport for tests: drive the connection from the returned controls
+export interface InMemoryTransport {
+  transport: RealtimeTransportFactory;
+  // Frames sent by the manager, most recent last
+  sent: string[];
+  connections: number;
+  open: () => void;
+  emit: (message: any, meta?: Partial<RealtimeMessageMeta>) => void;
+  drop: () => void;
+  isOpen: () => boolean;
+}
+
+export function createInMemoryTransport(): InMemoryTransport {
+  let handlers: RealtimeTransportHandlers | undefined;
+  let open = false;
+
+  const controls: InMemoryTransport = {
+    sent: [],
+    connections: 0,
+    transport: () => ({
+      connect: (connectionHandlers) => {
+        handlers = connectionHandlers;
+        open = false;
+        controls.connections++;
+      },
+      send: (data) => {
+        if (open) controls.sent.push(data);
+      },
+      close: () => {
+        handlers = undefined;
+        open = false;
+      },
+      isOpen: () => open
+    }),
+    open: () => {
+      open = true;
+      handlers?.onOpen();
+    },
+    emit: (message, meta = {}) => {
+      handlers?.onMessage(typeof message === 'string' ? message : JSON.stringify(message), { event: 'message', ...meta });
+    },
+    drop: () => {
+      const current = handlers;
+      handlers = undefined;
+      open = false;
+      current?.onClose();
+    },
+    isOpen: () => open
+  };
+  return controls;
+}
+
+export function resolveRealtimeTransport(transport: RealtimeTransportOption = 'websocket'): RealtimeTransportFactory {
+  if (typeof transport === 'function') return transport;
+  return transport === 'sse' ? createEventSourceTransport() : createWebSocketTransport();
 }
 
 // Advanced Caching
@@ -285,6 +931,342 @@ export class AdvancedCacheManager {
   }
 }
 
+// Polling
+// One timer per cache entry, however many components poll it. The shortest
+// requested interval wins and the timer stops with the last subscriber.
+export class PollingManager {
+  private polls = new Map<string, {
+    subscribers: Set<PollingSubscriber>;
+    timer?: ReturnType<typeof setTimeout>;
+    interval?: number;
+  }>();
+
+  subscribe(id: string, subscriber: PollingSubscriber): () => void {
+    let poll = this.polls.get(id);
+    if (!poll) {
+      poll = { subscribers: new Set() };
+      this.polls.set(id, poll);
+    }
+    poll.subscribers.add(subscriber);
+    this.schedule(id);
+
+    return () => {
+      const current = this.polls.get(id);
+      if (!current) return;
+      current.subscribers.delete(subscriber);
+      if (current.subscribers.size === 0) {
+        clearTimeout(current.timer);
+        this.polls.delete(id);
+      } else {
+        this.schedule(id);
+      }
+    };
+  }
+
+  // Reads the intervals again after the polled data changed, so that an
+  // interval function can pause polling or resume it. A running timer with an
+  // unchanged interval is left alone.
+  refresh(id: string): void {
+    const poll = this.polls.get(id);
+    if (!poll) return;
+    if (poll.timer === undefined || this.getShortestInterval(this.getIntervals(poll.subscribers)) !== poll.interval) {
+      this.schedule(id);
+    }
+  }
+
+  private getIntervals(subscribers: Set<PollingSubscriber>): { subscriber: PollingSubscriber; interval: number }[] {
+    return Array.from(subscribers)
+      .map(subscriber => ({ subscriber, interval: subscriber.interval() }))
+      .filter((entry): entry is { subscriber: PollingSubscriber; interval: number } =>
+        typeof entry.interval === 'number' && entry.interval > 0
+      );
+  }
+
+  private getShortestInterval(intervals: { interval: number }[]): number | undefined {
+    return intervals.length > 0 ? Math.min(...intervals.map(entry => entry.interval)) : undefined;
+  }
+
+  private schedule(id: string): void {
+    const poll = this.polls.get(id);
+    if (!poll) return;
+    clearTimeout(poll.timer);
+    poll.timer = undefined;
+
+    const intervals = this.getIntervals(poll.subscribers);
+    const interval = this.getShortestInterval(intervals);
+    poll.interval = interval;
+    if (interval === undefined) return;
+
+    poll.timer = setTimeout(() => {
+      const isHidden = typeof document !== 'undefined' && document.visibilityState === 'hidden';
+      const inBackground = intervals.some(entry => entry.subscriber.inBackground);
+
+      // Hidden tabs skip the tick unless a subscriber opted into background polling
+      if (!isHidden || inBackground) {
+        intervals[0].subscriber.refetch();
+      }
+      this.schedule(id);
+    }, interval);
+  }
+
+  isPolling(id: string): boolean {
+    return this.polls.get(id)?.timer !== undefined;
+  }
+}
+
+// Fetch Scheduling
+interface ScheduledTask {
+  host?: string;
+  start: () => void;
+}
+
+// Runs fetches within a global and a per-host concurrency limit. Queued
+// fetches start in order, except that one waiting on a busy host does not
+// hold back fetches to other hosts.
+export class FetchScheduler {
+  private config: FetchSchedulerConfig;
+  private active = 0;
+  private activePerHost = new Map<string, number>();
+  private queue: ScheduledTask[] = [];
+
+  constructor(config: FetchSchedulerConfig) {
+    this.config = config;
+  }
+
+  getHost(queryKey: QueryKey): string | undefined {
+    return (this.config.getHost ?? defaultGetHost)(queryKey);
+  }
+
+  // Aborting `signal` while the fetch is still queued removes it and rejects with an AbortError
+  schedule<T>(fn: () => Promise<T>, options: { host?: string; signal?: AbortSignal } = {}): Promise<T> {
+    const { host, signal } = options;
+    if (signal?.aborted) return Promise.reject(createAbortError());
+
+    return new Promise<T>((resolve, reject) => {
+      const task: ScheduledTask = {
+        host,
+        start: () => {
+          signal?.removeEventListener('abort', onAbort);
+          this.acquire(host);
+          let result: Promise<T>;
+          try {
+            result = fn();
+          } catch (error) {
+            result = Promise.reject(error);
+          }
+          result.then(resolve, reject).finally(() => {
+            this.release(host);
+            this.drain();
+          });
+        }
+      };
+      const onAbort = () => {
+        this.queue = this.queue.filter(queued => queued !== task);
+        reject(createAbortError());
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.queue.push(task);
+      this.drain();
+    });
+  }
+
+  getStats(): { active: number; queued: number } {
+    return { active: this.active, queued: this.queue.length };
+  }
+
+  private hasCapacity(host?: string): boolean {
+    if (this.active >= this.config.maxConcurrent) return false;
+    return host === undefined || (this.activePerHost.get(host) ?? 0) < this.config.maxConcurrentPerHost;
+  }
+
+  private drain(): void {
+    for (let i = 0; i < this.queue.length && this.active < this.config.maxConcurrent;) {
+      const task = this.queue[i];
+      if (this.hasCapacity(task.host)) {
+        this.queue.splice(i, 1);
+        task.start();
+      } else {
+        i++;
+      }
+    }
+  }
+
+  private acquire(host?: string): void {
+    this.active++;
+    if (host !== undefined) {
+      this.activePerHost.set(host, (this.activePerHost.get(host) ?? 0) + 1);
+    }
+  }
+
+  private release(host?: string): void {
+    this.active--;
+    if (host === undefined) return;
+    const count = (this.activePerHost.get(host) ?? 1) - 1;
+    if (count > 0) {
+      this.activePerHost.set(host, count);
+    } else {
+      this.activePerHost.delete(host);
+    }
+  }
+}
+
+// Keys that are URLs, or arrays starting with one, are limited per host
+function defaultGetHost(queryKey: QueryKey): string | undefined {
+  const url = Array.isArray(queryKey) ? queryKey[0] : queryKey;
+  if (typeof url !== 'string' || !/^(https?:)?\/\//.test(url) && !url.startsWith('/')) return undefined;
+  try {
+    const base = typeof window !== 'undefined' ? window.location.href : 'http://localhost';
+    return new URL(url, base).host;
+  } catch {
+    return undefined;
+  }
+}
+
+// The endpoint of a key: its first element, cut at the first path segment and
+// without the query string, so "/users/1" and "/users/2?tab=posts" share "/users"
+function defaultGroupBy(queryKey: QueryKey): string | undefined {
+  const first = Array.isArray(queryKey) ? queryKey[0] : queryKey;
+  if (first === undefined) return undefined;
+  if (typeof first !== 'string') return String(first);
+  return /^((https?:)?\/\/[^/?#]+)?\/?[^/?#]*/.exec(first)?.[0] || first;
+}
+
+// Circuit Breaker
+export class CircuitOpenError extends Error {
+  constructor(readonly group: string, readonly retryAt: number) {
+    super(`Circuit for "${group}" is open`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+interface Circuit {
+  state: CircuitState;
+  failures: number[];
+  openedAt?: number;
+  trialsInFlight: number;
+}
+
+// Stops requests to an endpoint group that keeps failing: after
+// `failureThreshold` failures within `windowMs` the circuit opens and
+// requests fail fast with CircuitOpenError until `resetTimeout` has passed;
+// then trial requests decide whether it closes again or stays open.
+export class CircuitBreakerManager {
+  private config: CircuitBreakerConfig;
+  private circuits = new Map<string, Circuit>();
+
+  constructor(config: CircuitBreakerConfig) {
+    this.config = config;
+  }
+
+  get enabled(): boolean {
+    return this.config.enabled;
+  }
+
+  getGroup(queryKey: QueryKey): string | undefined {
+    if (!this.config.enabled) return undefined;
+    return (this.config.groupBy ?? defaultGroupBy)(queryKey);
+  }
+
+  async execute<T>(group: string | undefined, fn: () => Promise<T>): Promise<T> {
+    if (group === undefined || !this.config.enabled) return fn();
+
+    const circuit = this.getCircuit(group);
+    this.refreshState(group, circuit);
+
+    if (circuit.state === 'open' ||
+      (circuit.state === 'half-open' && circuit.trialsInFlight >= this.config.halfOpenMaxRequests)) {
+      throw new CircuitOpenError(group, (circuit.openedAt ?? Date.now()) + this.config.resetTimeout);
+    }
+
+    const isTrial = circuit.state === 'half-open';
+    if (isTrial) circuit.trialsInFlight++;
+    try {
+      const result = await fn();
+      this.recordSuccess(group, circuit, isTrial);
+      return result;
+    } catch (error) {
+      this.recordFailure(group, circuit, error, isTrial);
+      throw error;
+    } finally {
+      if (isTrial) circuit.trialsInFlight--;
+    }
+  }
+
+  getState(group: string): CircuitState {
+    const circuit = this.circuits.get(group);
+    if (!circuit) return 'closed';
+    this.refreshState(group, circuit);
+    return circuit.state;
+  }
+
+  getSnapshots(): Record<string, CircuitBreakerSnapshot> {
+    const snapshots: Record<string, CircuitBreakerSnapshot> = {};
+    this.circuits.forEach((circuit, group) => {
+      this.refreshState(group, circuit);
+      snapshots[group] = { state: circuit.state, failures: circuit.failures.length, openedAt: circuit.openedAt };
+    });
+    return snapshots;
+  }
+
+  reset(group?: string): void {
+    if (group === undefined) {
+      this.circuits.clear();
+    } else {
+      this.circuits.delete(group);
+    }
+  }
+
+  private getCircuit(group: string): Circuit {
+    let circuit = this.circuits.get(group);
+    if (!circuit) {
+      circuit = { state: 'closed', failures: [], trialsInFlight: 0 };
+      this.circuits.set(group, circuit);
+    }
+    return circuit;
+  }
+
+  // Drops failures outside the window and lets an open circuit go half-open once resetTimeout passed
+  private refreshState(group: string, circuit: Circuit): void {
+    const now = Date.now();
+    circuit.failures = circuit.failures.filter(time => now - time < this.config.windowMs);
+    if (circuit.state === 'open' && now - (circuit.openedAt ?? 0) >= this.config.resetTimeout) {
+      this.setState(group, circuit, 'half-open');
+    }
+  }
+
+  private recordSuccess(group: string, circuit: Circuit, isTrial: boolean): void {
+    if (isTrial && circuit.state === 'half-open') {
+      circuit.failures = [];
+      circuit.openedAt = undefined;
+      this.setState(group, circuit, 'closed');
+    }
+  }
+
+  private recordFailure(group: string, circuit: Circuit, error: any, isTrial: boolean): void {
+    const isFailure = this.config.isFailure ?? defaultIsCircuitFailure;
+    if (error?.name === 'AbortError' || !isFailure(error)) return;
+
+    circuit.failures.push(Date.now());
+    if ((isTrial && circuit.state === 'half-open') ||
+      (circuit.state === 'closed' && circuit.failures.length >= this.config.failureThreshold)) {
+      circuit.openedAt = Date.now();
+      this.setState(group, circuit, 'open');
+    }
+  }
+
+  private setState(group: string, circuit: Circuit, state: CircuitState): void {
+    if (circuit.state === state) return;
+    circuit.state = state;
+    this.config.onStateChange?.(group, state);
+  }
+}
+
+function defaultIsCircuitFailure(error: any): boolean {
+  const status = getErrorStatus(error);
+  return status === undefined || status >= 500;
+}
+
 // Performance Monitoring
 export class PerformanceMonitor {
   private metrics: PerformanceMetrics = {
@@ -300,6 +1282,7 @@ export class PerformanceMonitor {
   private config: MetricsConfig;
   private cacheHits = 0;
   private cacheMisses = 0;
+  private circuitBreaker?: CircuitBreakerManager;
 
   constructor(config: MetricsConfig) {
     this.config = config;
@@ -345,8 +1328,17 @@ export class PerformanceMonitor {
     this.metrics.cacheHitRate = total > 0 ? this.cacheHits / total : 0;
   }
 
+  // Reports breaker state in getMetrics(); states survive resetMetrics as they are not counters
+  trackCircuitBreaker(circuitBreaker: CircuitBreakerManager): void {
+    this.circuitBreaker = circuitBreaker;
+  }
+
   getMetrics(): PerformanceMetrics {
-    return { ...this.metrics };
+    const metrics = { ...this.metrics };
+    if (this.circuitBreaker?.enabled) {
+      metrics.circuitBreakers = this.circuitBreaker.getSnapshots();
+    }
+    return metrics;
   }
 
   resetMetrics(): void {
@@ -375,6 +1367,27 @@ export function createRetryManager(config: Partial<RetryConfig> = {}): RetryMana
   return new RetryManager(defaultConfig);
 }
 
+export function createFetchScheduler(config: Partial<FetchSchedulerConfig> = {}): FetchScheduler {
+  const defaultConfig: FetchSchedulerConfig = {
+    maxConcurrent: 16,
+    maxConcurrentPerHost: 6,
+    ...config
+  };
+  return new FetchScheduler(defaultConfig);
+}
+
+export function createCircuitBreakerManager(config: Partial<CircuitBreakerConfig> = {}): CircuitBreakerManager {
+  const defaultConfig: CircuitBreakerConfig = {
+    enabled: false,
+    failureThreshold: 5,
+    windowMs: 60000,
+    resetTimeout: 30000,
+    halfOpenMaxRequests: 1,
+    ...config
+  };
+  return new CircuitBreakerManager(defaultConfig);
+}
+
 export function createOptimisticUpdateManager<T>(): OptimisticUpdateManager<T> {
   return new OptimisticUpdateManager<T>();
 }
@@ -406,6 +1419,10 @@ export function createAdvancedCacheManager(config: Partial<CacheConfig> = {}): A
   return new AdvancedCacheManager(defaultConfig);
 }
 
+export function createPollingManager(): PollingManager {
+  return new PollingManager();
+}
+
 export function createPerformanceMonitor(config: Partial<MetricsConfig> = {}): PerformanceMonitor {
   const defaultConfig: MetricsConfig = {
     enabled: false,
@@ -0,0 +1,54 @@
+import { createContext, useContext, useState, ReactNode } from "react";
+
+export interface DataErrorResetBoundaryValue {
+  // Called by hooks right before they throw a query error; a later call for the
+  // same `id` replaces the earlier one
+  registerError: (id: string, resetQuery: () => void) => void;
+  // Resets and refetches every query that threw since the last reset
+  reset: () => void;
+}
+
+function createErrorResetBoundaryValue(): DataErrorResetBoundaryValue {
+  const erroredQueries = new Map<string, () => void>();
+
+  return {
+    registerError: (id, resetQuery) => {
+      erroredQueries.set(id, resetQuery);
+    },
+    reset: () => {
+      const resets = Array.from(erroredQueries.values());
+      erroredQueries.clear();
+      resets.forEach((resetQuery) => resetQuery());
+    }
+  };
+}
+
+// Outside a boundary there is nothing to reset, so nothing is kept
+const noopErrorResetBoundaryValue: DataErrorResetBoundaryValue = {
+  registerError: () => {},
+  reset: () => {}
+};
+
+const DataErrorResetBoundaryContext = createContext<DataErrorResetBoundaryValue>(noopErrorResetBoundaryValue);
+
+export function useDataErrorResetBoundary(): DataErrorResetBoundaryValue {
+  return useContext(DataErrorResetBoundaryContext);
+}
+
+export interface DataErrorResetBoundaryProps {
+  children?: ReactNode | ((value: DataErrorResetBoundaryValue) => ReactNode);
+}
+
+/**
+ * Scopes `reset()` to the queries rendered inside it. Pass `reset` to an error
+ * boundary's "try again" handler so the errored keys refetch on retry.
+ */
+export function DataErrorResetBoundary({ children }: DataErrorResetBoundaryProps) {
+  const [value] = useState(createErrorResetBoundaryValue);
+
+  return (
+    <DataErrorResetBoundaryContext.Provider value={value}>
+      {typeof children === "function" ? children(value) : children}
+    </DataErrorResetBoundaryContext.Provider>
+  );
+}
@@ -0,0 +1,66 @@
+import { DehydratedState } from "./types";
+import { DataCacheClient } from "./client";
+
+/**
+ * Captures every successful `dataCache` and `infiniteCache` entry of `client`
+ * as plain data that can be serialized into the server-rendered HTML.
+ */
+export function dehydrate(client: DataCacheClient): DehydratedState {
+  const state: DehydratedState = { queries: [], infiniteQueries: [] };
+
+  client.dataCache.forEach((entry, hash) => {
+    if (entry.status !== "success") return;
+    state.queries.push({
+      queryKey: client.getQueryKey(hash),
+      payload: entry.payload,
+      timestamp: entry.timestamp || Date.now()
+    });
+  });
+
+  client.infiniteCache.forEach((entry, hash) => {
+    if (entry.status !== "success") return;
+    state.infiniteQueries.push({
+      queryKey: client.getQueryKey(hash),
+      pages: entry.pages,
+      pageParams: entry.pageParams,
+      timestamp: entry.timestamp || Date.now()
+    });
+  });
+
+  return state;
+}
+
+/**
+ * Writes a dehydrated snapshot into `client`. Entries that are already cached
+ * with newer data are left alone, so hydrating twice is harmless.
+ */
+export function hydrate(client: DataCacheClient, dehydratedState?: DehydratedState | null): void {
+  if (!dehydratedState) return;
+
+  dehydratedState.queries.forEach(({ queryKey, payload, timestamp }) => {
+    const hash = client.registerQuery(queryKey);
+    const existing = client.dataCache.get(hash);
+    if (existing && existing.status !== "idle" && (existing.timestamp || 0) >= timestamp) return;
+
+    client.dataCache.set(hash, { status: "success", payload, timestamp });
+    client.scheduleEviction(hash);
+    client.notify(hash);
+  });
+
+  dehydratedState.infiniteQueries.forEach(({ queryKey, pages, pageParams, timestamp }) => {
+    const hash = client.registerQuery(queryKey);
+    const existing = client.infiniteCache.get(hash);
+    if (existing && existing.status !== "idle" && (existing.timestamp || 0) >= timestamp) return;
+
+    client.infiniteCache.set(hash, {
+      status: "success",
+      pages,
+      pageParams,
+      data: [],
+      error: null,
+      timestamp
+    });
+    client.scheduleEviction(hash, "infinite");
+    client.notifyInfinite(hash);
+  });
+}
@@ -0,0 +1,37 @@
+import { ReactNode, useEffect, useRef } from "react";
+import { DehydratedState } from "./types";
+import { DataCacheClient } from "./client";
+import { useDataCacheClient } from "./provider";
+import { hydrate } from "./hydration";
+import { hashQueryKey } from "./queryKey";
+
+export interface HydrationBoundaryProps {
+  state?: DehydratedState | null;
+  client?: DataCacheClient;
+  children?: ReactNode;
+}
+
+export function HydrationBoundary({ state, client, children }: HydrationBoundaryProps) {
+  const resolvedClient = useDataCacheClient(client);
+  const hydratedRef = useRef<DehydratedState | null | undefined>(undefined);
+
+  // Keys the cache has never seen are written during render so the first
+  // render of the children already matches the server markup. Nothing can be
+  // subscribed to them yet, so no other component is updated mid-render.
+  if (state && hydratedRef.current !== state) {
+    hydratedRef.current = state;
+    hydrate(resolvedClient, {
+      queries: state.queries.filter(({ queryKey }) => !resolvedClient.dataCache.has(hashQueryKey(queryKey))),
+      infiniteQueries: state.infiniteQueries.filter(
+        ({ queryKey }) => !resolvedClient.infiniteCache.has(hashQueryKey(queryKey))
+      )
+    });
+  }
+
+  // Keys that already exist may have mounted observers; update them after commit
+  useEffect(() => {
+    hydrate(resolvedClient, state);
+  }, [resolvedClient, state]);
+
+  return <>{children}</>;
+}
@@ -1,6 +1,6 @@
 export { useData } from "./useData";
 export { prefetchData, prefetchMulti, prefetchOnEvent, prefetchWithStrategy, prefetchInBackground } from "./prefetch";
-export { clearDataCache, performanceMonitor, advancedCache, backgroundSync } from "./cache";
+export { clearDataCache, invalidateQueries, performanceMonitor, advancedCache, backgroundSync } from "./cache";
 export * from "./types";
 export * from "./cache";
 export * from "./prefetch";
@@ -8,3 +8,13 @@ export * from "./useData";
 export * from "./infinite-scroll/useUniversalInfiniteQuery";
 export * from "./infinite-scroll/universalInfiniteCache";
 export * from "./enhancements";
+export * from "./client";
+export * from "./provider";
+export * from "./queryKey";
+export * from "./useMutation";
+export * from "./hydration";
+export * from "./hydrationBoundary";
+export * from "./persist";
+export * from "./errorResetBoundary";
+export * from "./realtime";
+export * from "./jsonPatch";
@@ -1,13 +1,17 @@
 import { UniversalInfiniteState } from "../types";
+import { DataCacheClient, defaultDataCacheClient } from "../client";
+import { QueryKey, hashQueryKey } from "../queryKey";
 
-export const universalInfiniteCache = new Map<string, UniversalInfiniteState<any>>();
+export const universalInfiniteCache: Map<string, UniversalInfiniteState<any>> = defaultDataCacheClient.infiniteCache;
 
-export function subscribeUniversal(callback: () => void) {
-    window.addEventListener("universalInfiniteDataFetched", callback);
-    return () => window.removeEventListener("universalInfiniteDataFetched", callback);
+export function subscribeUniversal(
+    key: QueryKey,
+    callback: () => void,
+    client: DataCacheClient = defaultDataCacheClient
+) {
+    return client.subscribeInfinite(hashQueryKey(key), callback);
 }
 
-export function emitUniversalUpdate() {
-    window.dispatchEvent(new Event("universalInfiniteDataFetched"));
+export function emitUniversalUpdate(key: QueryKey, client: DataCacheClient = defaultDataCacheClient) {
+    client.notifyInfinite(hashQueryKey(key));
 }
-
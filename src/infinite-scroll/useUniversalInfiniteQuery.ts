@@ -1,37 +1,40 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import { useSyncExternalStore, useEffect, useRef } from "react";
+import { useSyncExternalStore, useEffect, useRef, useCallback } from "react";
 import {
     UniversalInfiniteOptions,
     UniversalInfiniteState,
     UniversalInfiniteResponse,
     UniversalFetchFunction
 } from "../types";
-import {
-    universalInfiniteCache,
-    subscribeUniversal,
-    emitUniversalUpdate
-} from "./universalInfiniteCache";
+import { DataCacheClient, defaultDataCacheClient } from "../client";
+import { useDataCacheClient } from "../provider";
+import { QueryKey } from "../queryKey";
+import { isServer, shouldThrowError, getRetryConfig } from "../utils";
+import { useDataErrorResetBoundary } from "../errorResetBoundary";
+import { useQueryObserver, usePolling, useRealtimeSubscription } from "../queryHooks";
 import { 
   createRetryManager, 
   createOptimisticUpdateManager,
   createBackgroundSyncManager,
-  createRealtimeManager,
   createAdvancedCacheManager,
   createPerformanceMonitor,
   RetryManager,
   OptimisticUpdateManager,
   BackgroundSyncManager,
-  RealtimeManager,
   AdvancedCacheManager,
   PerformanceMonitor
 } from "../enhancements";
 
 export function useUniversalInfiniteQuery<TData, TResponse = any, TPageParam = any>(
-    key: string | (string | number)[],
+    key: QueryKey,
     fetchFn: UniversalFetchFunction<TResponse>,
-    options: UniversalInfiniteOptions<TData, TPageParam>
+    hookOptions: UniversalInfiniteOptions<TData, TPageParam>
 ): UniversalInfiniteResponse<TData> {
-    const cacheKey = Array.isArray(key) ? key.join(':') : key;
+    const client = useDataCacheClient(hookOptions.client);
+    const options: UniversalInfiniteOptions<TData, TPageParam> = { ...client.defaultOptions, ...hookOptions, client };
+    const universalInfiniteCache = client.infiniteCache;
+    const cacheKey = client.registerQuery(key);
+    const errorResetBoundary = useDataErrorResetBoundary();
 
     // Initialize cache entry
     if (!universalInfiniteCache.has(cacheKey)) {
@@ -48,7 +51,6 @@ export function useUniversalInfiniteQuery<TData, TResponse = any, TPageParam = a
     const retryManagerRef = useRef<RetryManager | null>(null);
     const optimisticManagerRef = useRef<OptimisticUpdateManager<TData[]> | null>(null);
     const backgroundSyncRef = useRef<BackgroundSyncManager | null>(null);
-    const realtimeRef = useRef<RealtimeManager | null>(null);
     const advancedCacheRef = useRef<AdvancedCacheManager | null>(null);
     const performanceMonitorRef = useRef<PerformanceMonitor | null>(null);
 
@@ -73,14 +75,6 @@ export function useUniversalInfiniteQuery<TData, TResponse = any, TPageParam = a
         });
     }
 
-    if (options.realtime && !realtimeRef.current) {
-        realtimeRef.current = createRealtimeManager({
-            enabled: options.realtime,
-            subscriptionUrl: options.subscriptionUrl,
-            onUpdate: options.onUpdate
-        });
-    }
-
     if (options.cacheStrategy && options.cacheStrategy !== "default" && !advancedCacheRef.current) {
         advancedCacheRef.current = createAdvancedCacheManager({
             strategy: options.cacheStrategy,
@@ -96,22 +90,72 @@ export function useUniversalInfiniteQuery<TData, TResponse = any, TPageParam = a
         });
     }
 
-    const state = useSyncExternalStore(
-        subscribeUniversal,
-        () => universalInfiniteCache.get(cacheKey) as UniversalInfiniteState<TData>
+    const subscribeUniversal = useCallback(
+        (callback: () => void) => client.subscribeInfinite(cacheKey, callback),
+        [client, cacheKey]
     );
 
-    // Initial fetch
-    if (state.status === "idle" && (options.enabled !== false)) {
-        fetchPage(
-            cacheKey,
-            fetchFn,
-            options as UniversalInfiniteOptions<TData, TPageParam | undefined>,
-            options.initialPageParam,
-            "initial"
-        );
+    const getSnapshot = () => universalInfiniteCache.get(cacheKey) as UniversalInfiniteState<TData>;
+
+    // The server snapshot reads the same (possibly hydrated) client cache
+    const state = useSyncExternalStore(subscribeUniversal, getSnapshot, getSnapshot);
+
+    const startInitialFetch = () => trackPromise(client, cacheKey, fetchPage(
+        client,
+        cacheKey,
+        fetchFn,
+        options as UniversalInfiniteOptions<TData, TPageParam | undefined>,
+        options.initialPageParam,
+        "initial"
+    ));
+
+    // Initial fetch; server renders only read what was prefetched unless they can suspend
+    let initialFetch: Promise<void> | undefined;
+    if (state.status === "idle" && (options.enabled !== false) && (!isServer || options.suspense)) {
+        initialFetch = startInitialFetch();
+    }
+
+    // Invalidated entries refetch as soon as a hook observes them again
+    if (state.isInvalidated && state.status === "success" && (options.enabled !== false) && !isServer) {
+        refetchAll(client, cacheKey, fetchFn, options);
     }
 
+    const fetchFnRef = useRef(fetchFn);
+    const optionsRef = useRef(options);
+    fetchFnRef.current = fetchFn;
+    optionsRef.current = options;
+
+    // Refetches the loaded pages, or the first page when nothing loaded yet
+    const refetchQuery = () => {
+        const current = client.infiniteCache.get(cacheKey);
+        if (current && current.pageParams.length > 0) {
+            refetchAll(client, cacheKey, fetchFnRef.current, optionsRef.current);
+        } else {
+            trackPromise(client, cacheKey, fetchPage(
+                client,
+                cacheKey,
+                fetchFnRef.current,
+                optionsRef.current as UniversalInfiniteOptions<TData, TPageParam | undefined>,
+                optionsRef.current.initialPageParam,
+                "initial"
+            ));
+        }
+    };
+
+    useQueryObserver(client, "infinite", cacheKey, options.enabled !== false, options, refetchQuery);
+
+    usePolling(client, "infinite", cacheKey, options.enabled !== false, {
+        refetchInterval: options.refetchInterval,
+        refetchIntervalInBackground: options.refetchIntervalInBackground,
+        getData: () => client.infiniteCache.get(cacheKey)?.pages ?? [],
+        refetch: () => {
+            // Never abort a page request that is already in flight
+            if (client.infiniteCache.get(cacheKey)?.status !== "loading") {
+                refetchQuery();
+            }
+        }
+    });
+
     // Background sync setup
     useEffect(() => {
         if (options.backgroundSync && backgroundSyncRef.current) {
@@ -123,16 +167,7 @@ export function useUniversalInfiniteQuery<TData, TResponse = any, TPageParam = a
         }
     }, [options.backgroundSync]);
 
-    // Real-time subscription setup
-    useEffect(() => {
-        if (options.realtime && realtimeRef.current) {
-            realtimeRef.current.connect();
-            
-            return () => {
-                realtimeRef.current?.disconnect();
-            };
-        }
-    }, [options.realtime, options.subscriptionUrl]);
+    const { connectionState, reconnect } = useRealtimeSubscription(client, key, cacheKey, options);
 
     // Performance monitoring setup
     useEffect(() => {
@@ -146,6 +181,19 @@ export function useUniversalInfiniteQuery<TData, TResponse = any, TPageParam = a
         }
     }, [options.enableMetrics, options.onMetrics]);
 
+    // Suspense only covers the first page; later pages and refetches keep the
+    // rendered pages instead of falling back
+    if (options.suspense && options.enabled !== false && state.pages.length === 0 &&
+        (state.status === "idle" || state.status === "loading")) {
+        throw initialFetch ?? universalInfiniteCache.get(cacheKey)?.promise ?? startInitialFetch();
+    }
+
+    // The reset boundary refetches this key when the error boundary retries
+    if (state.status === "error" && shouldThrowError(options.throwOnError ?? options.suspense, state.error, key)) {
+        errorResetBoundary.registerError(`infinite:${cacheKey}`, refetchQuery);
+        throw state.error;
+    }
+
     // Calculate derived state
     const flattenedData = state.pages.flatMap((page, index) => {
         const transformed = options.transformPage ? options.transformPage(page, state.pageParams[index]) : page;
@@ -182,6 +230,7 @@ export function useUniversalInfiniteQuery<TData, TResponse = any, TPageParam = a
                     lastPageParam as typeof lastPageParam | undefined
                 );
                 fetchPage(
+                    client,
                     cacheKey,
                     fetchFn,
                     options as UniversalInfiniteOptions<TData, typeof lastPageParam | undefined>,
@@ -198,6 +247,7 @@ export function useUniversalInfiniteQuery<TData, TResponse = any, TPageParam = a
                     firstPageParam as typeof firstPageParam | undefined
                 );
                 fetchPage(
+                    client,
                     cacheKey,
                     fetchFn,
                     options as UniversalInfiniteOptions<TData, typeof firstPageParam | undefined>,
@@ -207,7 +257,7 @@ export function useUniversalInfiniteQuery<TData, TResponse = any, TPageParam = a
             }
         },
         refetch: () => {
-            refetchAll(cacheKey, fetchFn, options);
+            refetchAll(client, cacheKey, fetchFn, options);
         },
         // High Priority Enhancements
         updateOptimistically: (optimisticData: Partial<TData[]>, mutationFn: () => Promise<void>) => {
@@ -224,7 +274,7 @@ export function useUniversalInfiniteQuery<TData, TResponse = any, TPageParam = a
                                 ...currentState,
                                 optimisticData: undefined
                             });
-                            emitUniversalUpdate();
+                            client.notifyInfinite(cacheKey);
                         }
                     }
                 );
@@ -234,12 +284,14 @@ export function useUniversalInfiniteQuery<TData, TResponse = any, TPageParam = a
             if (retryManagerRef.current) {
                 retryManagerRef.current.reset();
             }
-            refetchAll(cacheKey, fetchFn, options);
+            refetchAll(client, cacheKey, fetchFn, options);
         },
         retryCount: state.retryCount || 0,
         syncStatus: state.syncStatus || "online",
         // Medium Priority Enhancements
-        isConnected: realtimeRef.current?.isConnected() || true,
+        isConnected: connectionState === "open",
+        connectionState,
+        reconnect,
         metrics: state.metrics || performanceMonitorRef.current?.getMetrics() || {
             fetchTime: 0,
             cacheHitRate: 0,
@@ -252,13 +304,46 @@ export function useUniversalInfiniteQuery<TData, TResponse = any, TPageParam = a
     };
 }
 
+// Stores the promise on the entry while its request is in flight, so a
+// suspended component can wait for a fetch started elsewhere
+function trackPromise(client: DataCacheClient, cacheKey: string, promise: Promise<void>) {
+    const current = client.infiniteCache.get(cacheKey);
+    if (current?.controller) {
+        client.infiniteCache.set(cacheKey, { ...current, promise });
+    }
+    return promise;
+}
+
+// Retries a page request as the hook configures; aborting the request also ends the wait between attempts.
+// Every attempt passes the client's circuit breaker and fetch scheduler.
+function fetchWithRetry<TResponse>(
+    client: DataCacheClient,
+    cacheKey: string,
+    fetchFn: UniversalFetchFunction<TResponse>,
+    options: UniversalInfiniteOptions<any, any>,
+    pageParam: any,
+    signal: AbortSignal,
+    meta: Parameters<UniversalFetchFunction<TResponse>>[2]
+): Promise<TResponse> {
+    const queryKey = client.getQueryKey(cacheKey);
+    const group = client.circuitBreaker.getGroup(queryKey);
+    const host = client.fetchScheduler.getHost(queryKey);
+    const attempt = () => client.circuitBreaker.execute(group,
+        () => client.fetchScheduler.schedule(() => fetchFn(pageParam, signal, meta), { host, signal }));
+    const retryConfig = getRetryConfig(options);
+    if (!retryConfig) return attempt();
+    return createRetryManager({ ...retryConfig, onError: options.onError }).execute(attempt, signal);
+}
+
 async function fetchPage<TData, TResponse, TPageParam>(
+    client: DataCacheClient,
     cacheKey: string,
     fetchFn: UniversalFetchFunction<TResponse>,
     options: UniversalInfiniteOptions<TData, TPageParam>,
     pageParam: TPageParam,
     direction: "initial" | "next" | "previous"
 ) {
+    const universalInfiniteCache = client.infiniteCache;
     const currentState = universalInfiniteCache.get(cacheKey);
     if (!currentState) return;
 
@@ -280,7 +365,7 @@ async function fetchPage<TData, TResponse, TPageParam>(
         controller
     });
 
-    emitUniversalUpdate();
+    client.notifyInfinite(cacheKey);
 
     try {
         const meta = {
@@ -292,7 +377,7 @@ async function fetchPage<TData, TResponse, TPageParam>(
                     : undefined
         };
 
-        const response = await fetchFn(pageParam, controller.signal, meta);
+        const response = await fetchWithRetry(client, cacheKey, fetchFn, options, pageParam, controller.signal, meta);
         const updatedState = universalInfiniteCache.get(cacheKey);
 
         if (updatedState) {
@@ -310,7 +395,9 @@ async function fetchPage<TData, TResponse, TPageParam>(
                 pages: newPages,
                 pageParams: newPageParams,
                 timestamp: Date.now(),
-                controller: undefined
+                controller: undefined,
+                promise: undefined,
+                isInvalidated: false
             });
         }
     } catch (error: any) {
@@ -322,21 +409,33 @@ async function fetchPage<TData, TResponse, TPageParam>(
                     status: "error",
                     error,
                     controller: undefined,
+                    promise: undefined,
                     retryCount: (updatedState.retryCount || 0) + 1,
                     lastError: error
                 });
             }
         }
     } finally {
-        emitUniversalUpdate();
+        client.notifyInfinite(cacheKey);
     }
 }
 
-async function refetchAll<TData, TResponse, TPageParam>(
+function refetchAll<TData, TResponse, TPageParam>(
+    client: DataCacheClient,
+    cacheKey: string,
+    fetchFn: UniversalFetchFunction<TResponse>,
+    options: UniversalInfiniteOptions<TData, TPageParam>
+) {
+    return trackPromise(client, cacheKey, refetchPages(client, cacheKey, fetchFn, options));
+}
+
+async function refetchPages<TData, TResponse, TPageParam>(
+    client: DataCacheClient,
     cacheKey: string,
     fetchFn: UniversalFetchFunction<TResponse>,
     options: UniversalInfiniteOptions<TData, TPageParam>
 ) {
+    const universalInfiniteCache = client.infiniteCache;
     const currentState = universalInfiniteCache.get(cacheKey);
     if (!currentState || currentState.pageParams.length === 0) return;
 
@@ -353,7 +452,7 @@ async function refetchAll<TData, TResponse, TPageParam>(
         controller
     });
 
-    emitUniversalUpdate();
+    client.notifyInfinite(cacheKey);
 
     try {
         const refetchedPages: any[] = [];
@@ -365,7 +464,7 @@ async function refetchAll<TData, TResponse, TPageParam>(
                 previousPageParam: i > 0 ? currentState.pageParams[i - 1] : undefined
             };
 
-            const response = await fetchFn(pageParam, controller.signal, meta);
+            const response = await fetchWithRetry(client, cacheKey, fetchFn, options, pageParam, controller.signal, meta);
             refetchedPages.push(response);
         }
 
@@ -374,7 +473,11 @@ async function refetchAll<TData, TResponse, TPageParam>(
             status: "success",
             pages: refetchedPages,
             timestamp: Date.now(),
-            controller: undefined
+            controller: undefined,
+            promise: undefined,
+            isInvalidated: false,
+            // Realtime messages received meanwhile may have moved the version on
+            version: universalInfiniteCache.get(cacheKey)?.version
         });
     } catch (error: any) {
         if (error?.name !== "AbortError") {
@@ -383,13 +486,45 @@ async function refetchAll<TData, TResponse, TPageParam>(
                 status: "error",
                 error,
                 controller: undefined,
+                promise: undefined,
                 retryCount: (currentState.retryCount || 0) + 1,
-                lastError: error
+                lastError: error,
+                version: universalInfiniteCache.get(cacheKey)?.version
             });
         }
     } finally {
-        emitUniversalUpdate();
+        client.notifyInfinite(cacheKey);
+    }
+}
+
+// Fetches the first page outside of React, e.g. on the server before dehydrate()
+export function prefetchUniversalInfiniteData<TResponse, TPageParam = any>(
+    key: QueryKey,
+    fetchFn: UniversalFetchFunction<TResponse>,
+    options: { initialPageParam?: TPageParam; client?: DataCacheClient } = {}
+): Promise<void> {
+    const client = options.client ?? defaultDataCacheClient;
+    const cacheKey = client.registerQuery(key);
+
+    if (!client.infiniteCache.has(cacheKey)) {
+        client.infiniteCache.set(cacheKey, {
+            status: "idle",
+            pages: [],
+            pageParams: [],
+            data: [],
+            error: null
+        });
     }
+    client.scheduleEviction(cacheKey, "infinite");
+
+    return trackPromise(client, cacheKey, fetchPage(
+        client,
+        cacheKey,
+        fetchFn,
+        options as UniversalInfiniteOptions<unknown, TPageParam | undefined>,
+        options.initialPageParam,
+        "initial"
+    ));
 }
 
 // Pre-built adapters for common pagination patterns
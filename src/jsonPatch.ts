@@ -0,0 +1,143 @@
+import { JsonPatchOperation } from "./types";
+
+export class JsonPatchError extends Error {
+  constructor(message: string, readonly operation: JsonPatchOperation) {
+    super(message);
+    this.name = "JsonPatchError";
+  }
+}
+
+// "/a/b~1c" -> ["a", "b/c"] (RFC 6901)
+function parsePointer(pointer: string, operation: JsonPatchOperation): string[] {
+  if (pointer === "") return [];
+  if (!pointer.startsWith("/")) {
+    throw new JsonPatchError(`Invalid JSON pointer "${pointer}"`, operation);
+  }
+  return pointer.slice(1).split("/").map((token) => token.replace(/~1/g, "/").replace(/~0/g, "~"));
+}
+
+function isContainer(value: unknown): value is Record<string, any> {
+  return typeof value === "object" && value !== null;
+}
+
+function arrayIndex(array: any[], token: string, operation: JsonPatchOperation, allowEnd: boolean): number {
+  if (allowEnd && token === "-") return array.length;
+  if (!/^(0|[1-9][0-9]*)$/.test(token)) {
+    throw new JsonPatchError(`Invalid array index "${token}"`, operation);
+  }
+  const index = Number(token);
+  if (index > array.length || (!allowEnd && index === array.length)) {
+    throw new JsonPatchError(`Array index ${index} is out of bounds`, operation);
+  }
+  return index;
+}
+
+function getValue(document: any, path: string[], operation: JsonPatchOperation): any {
+  return path.reduce((value, token) => {
+    if (Array.isArray(value)) return value[arrayIndex(value, token, operation, false)];
+    if (isContainer(value) && Object.prototype.hasOwnProperty.call(value, token)) return value[token];
+    throw new JsonPatchError(`Path "/${path.join("/")}" does not exist`, operation);
+  }, document);
+}
+
+// Copies only the containers along `path`; everything else keeps its identity
+function updateIn(
+  document: any,
+  path: string[],
+  operation: JsonPatchOperation,
+  update: (parent: any, token: string) => void
+): any {
+  if (path.length === 0) return document;
+
+  const [token, ...rest] = path;
+  if (!isContainer(document)) {
+    throw new JsonPatchError(`Path "/${path.join("/")}" does not exist`, operation);
+  }
+  const copy: any = Array.isArray(document) ? [...document] : { ...document };
+
+  if (rest.length === 0) {
+    update(copy, token);
+  } else {
+    const child = Array.isArray(copy) ? copy[arrayIndex(copy, token, operation, false)] : copy[token];
+    if (!Array.isArray(copy) && !Object.prototype.hasOwnProperty.call(copy, token)) {
+      throw new JsonPatchError(`Path "/${path.join("/")}" does not exist`, operation);
+    }
+    copy[token] = updateIn(child, rest, operation, update);
+  }
+  return copy;
+}
+
+function add(document: any, path: string[], value: any, operation: JsonPatchOperation): any {
+  if (path.length === 0) return value;
+  return updateIn(document, path, operation, (parent, token) => {
+    if (Array.isArray(parent)) {
+      parent.splice(arrayIndex(parent, token, operation, true), 0, value);
+    } else {
+      parent[token] = value;
+    }
+  });
+}
+
+function remove(document: any, path: string[], operation: JsonPatchOperation): any {
+  if (path.length === 0) {
+    throw new JsonPatchError("Cannot remove the whole document", operation);
+  }
+  return updateIn(document, path, operation, (parent, token) => {
+    if (Array.isArray(parent)) {
+      parent.splice(arrayIndex(parent, token, operation, false), 1);
+    } else if (Object.prototype.hasOwnProperty.call(parent, token)) {
+      delete parent[token];
+    } else {
+      throw new JsonPatchError(`Path "/${path.join("/")}" does not exist`, operation);
+    }
+  });
+}
+
+function isDeepEqual(a: any, b: any): boolean {
+  if (a === b) return true;
+  if (!isContainer(a) || !isContainer(b) || Array.isArray(a) !== Array.isArray(b)) return false;
+  const aKeys = Object.keys(a);
+  const bKeys = Object.keys(b);
+  return aKeys.length === bKeys.length && aKeys.every((key) => isDeepEqual(a[key], (b as any)[key]));
+}
+
+/**
+ * Applies RFC 6902 operations to `document` without mutating it. Containers
+ * on the patched paths are copied; untouched subtrees keep their identity.
+ * Throws a JsonPatchError when an operation cannot be applied or a `test`
+ * operation fails; the document is then left as it was.
+ */
+export function applyJsonPatch<T>(document: T, operations: JsonPatchOperation[]): T {
+  return operations.reduce<any>((current, operation) => {
+    const path = parsePointer(operation.path, operation);
+
+    switch (operation.op) {
+      case "add":
+        return add(current, path, operation.value, operation);
+      case "remove":
+        return remove(current, path, operation);
+      case "replace":
+        getValue(current, path, operation);
+        return path.length === 0 ? operation.value : updateIn(current, path, operation, (parent, token) => {
+          parent[Array.isArray(parent) ? arrayIndex(parent, token, operation, false) : token] = operation.value;
+        });
+      case "move": {
+        const from = parsePointer(operation.from, operation);
+        if (operation.path.startsWith(`${operation.from}/`)) {
+          throw new JsonPatchError("Cannot move a value into one of its children", operation);
+        }
+        const value = getValue(current, from, operation);
+        return add(remove(current, from, operation), path, value, operation);
+      }
+      case "copy":
+        return add(current, path, getValue(current, parsePointer(operation.from, operation), operation), operation);
+      case "test":
+        if (!isDeepEqual(getValue(current, path, operation), operation.value)) {
+          throw new JsonPatchError(`Test failed at "${operation.path}"`, operation);
+        }
+        return current;
+      default:
+        throw new JsonPatchError(`Unknown operation "${(operation as any).op}"`, operation);
+    }
+  }, document);
+}
@@ -0,0 +1,186 @@
+import { CacheEntryType, PersistCacheOptions, PersistedCache, PersistStorage } from "./types";
+import { defaultDataCacheClient } from "./client";
+import { dehydrate, hydrate } from "./hydration";
+import { QueryKey } from "./queryKey";
+
+const defaultMaxAge = 24 * 60 * 60 * 1000;
+const defaultThrottleTime = 1000;
+const defaultStorageKey = "react-data-cache";
+
+function isPromise<T>(value: T | Promise<T>): value is Promise<T> {
+  return !!value && typeof (value as any).then === "function";
+}
+
+/**
+ * Restores the cache from `storage` and keeps writing it back, at most once
+ * per `throttleTime`. Synchronous storages are restored before this function
+ * returns; for async ones (IndexedDB) await `restored` before the first render.
+ */
+export function persistCache(options: PersistCacheOptions): { restored: Promise<void>; unsubscribe: () => void } {
+  const client = options.client ?? defaultDataCacheClient;
+  const {
+    storage,
+    maxAge = defaultMaxAge,
+    buster = "",
+    filter,
+    throttleTime = defaultThrottleTime,
+    storageKey = defaultStorageKey
+  } = options;
+
+  let unsubscribed = false;
+  let stopListening: (() => void) | undefined;
+  let writeTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const include = (queryKey: QueryKey, cache: CacheEntryType) =>
+    filter ? filter(queryKey, cache) : true;
+
+  const write = () => {
+    writeTimer = undefined;
+    const state = dehydrate(client);
+    const snapshot: PersistedCache = {
+      buster,
+      timestamp: Date.now(),
+      state: {
+        queries: state.queries.filter(({ queryKey }) => include(queryKey, "data")),
+        infiniteQueries: state.infiniteQueries.filter(({ queryKey }) => include(queryKey, "infinite"))
+      }
+    };
+
+    try {
+      const result = storage.setItem(storageKey, JSON.stringify(snapshot));
+      if (isPromise(result)) {
+        result.catch((error) => console.error("Failed to persist cache:", error));
+      }
+    } catch (error) {
+      console.error("Failed to persist cache:", error);
+    }
+  };
+
+  const remove = () => {
+    try {
+      const result = storage.removeItem(storageKey);
+      if (isPromise(result)) {
+        result.catch((error) => console.error("Failed to remove persisted cache:", error));
+      }
+    } catch (error) {
+      console.error("Failed to remove persisted cache:", error);
+    }
+  };
+
+  const restore = (raw: string | null) => {
+    if (!raw) return;
+
+    try {
+      const snapshot: PersistedCache = JSON.parse(raw);
+      if (snapshot.buster !== buster || Date.now() - snapshot.timestamp > maxAge) {
+        remove();
+        return;
+      }
+      hydrate(client, snapshot.state);
+    } catch (error) {
+      console.error("Failed to restore persisted cache:", error);
+      remove();
+    }
+  };
+
+  // Writes only start once the snapshot has been restored, so an empty cache
+  // never overwrites the stored one.
+  const startListening = () => {
+    if (unsubscribed) return;
+    stopListening = client.subscribeEvents(() => {
+      if (writeTimer === undefined) {
+        writeTimer = setTimeout(write, throttleTime);
+      }
+    });
+  };
+
+  let restored: Promise<void>;
+  try {
+    const raw = storage.getItem(storageKey);
+    if (isPromise(raw)) {
+      restored = raw.then(restore, (error) => {
+        console.error("Failed to restore persisted cache:", error);
+      }).then(startListening);
+    } else {
+      restore(raw);
+      startListening();
+      restored = Promise.resolve();
+    }
+  } catch (error) {
+    console.error("Failed to restore persisted cache:", error);
+    startListening();
+    restored = Promise.resolve();
+  }
+
+  return {
+    restored,
+    unsubscribe: () => {
+      unsubscribed = true;
+      stopListening?.();
+      if (writeTimer !== undefined) {
+        clearTimeout(writeTimer);
+        writeTimer = undefined;
+      }
+    }
+  };
+}
+
+// Storage adapters
+
+function createWebStorageAdapter(getStorage: () => Storage | undefined): PersistStorage {
+  return {
+    getItem: (key) => getStorage()?.getItem(key) ?? null,
+    setItem: (key, value) => getStorage()?.setItem(key, value),
+    removeItem: (key) => getStorage()?.removeItem(key)
+  };
+}
+
+export function createLocalStorageAdapter(): PersistStorage {
+  return createWebStorageAdapter(() => (typeof localStorage === "undefined" ? undefined : localStorage));
+}
+
+export function createSessionStorageAdapter(): PersistStorage {
+  return createWebStorageAdapter(() => (typeof sessionStorage === "undefined" ? undefined : sessionStorage));
+}
+
+export function createIndexedDBAdapter(
+  options: { databaseName?: string; storeName?: string } = {}
+): PersistStorage {
+  const databaseName = options.databaseName || defaultStorageKey;
+  const storeName = options.storeName || "cache";
+  let database: Promise<IDBDatabase> | undefined;
+
+  const openDatabase = () => {
+    if (!database) {
+      database = new Promise((resolve, reject) => {
+        const request = indexedDB.open(databaseName, 1);
+        request.onupgradeneeded = () => request.result.createObjectStore(storeName);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return database;
+  };
+
+  const run = <T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>) =>
+    openDatabase().then((db) => new Promise<T>((resolve, reject) => {
+      const request = operation(db.transaction(storeName, mode).objectStore(storeName));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }));
+
+  return {
+    getItem: (key) => {
+      if (typeof indexedDB === "undefined") return Promise.resolve(null);
+      return run<string | undefined>("readonly", (store) => store.get(key)).then((value) => value ?? null);
+    },
+    setItem: (key, value) => {
+      if (typeof indexedDB === "undefined") return Promise.resolve();
+      return run("readwrite", (store) => store.put(value, key)).then(() => undefined);
+    },
+    removeItem: (key) => {
+      if (typeof indexedDB === "undefined") return Promise.resolve();
+      return run("readwrite", (store) => store.delete(key)).then(() => undefined);
+    }
+  };
+}
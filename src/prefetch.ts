@@ -1,53 +1,112 @@
-import { dataCache, performanceMonitor } from "./cache";
-import { FetchFunction, UseDataOptions } from "./types";
-import { createRetryManager, RetryManager } from "./enhancements";
+import { DataState, FetchFunction, PrefetchResult, RetryConfig } from "./types";
+import { createRetryManager } from "./enhancements";
+import { DataCacheClient, defaultDataCacheClient } from "./client";
+import { QueryKey, hashQueryKey } from "./queryKey";
+import { isServer, replaceEqualDeep } from "./utils";
 
+export interface PrefetchOptions {
+  refetching?: boolean;
+  // Defaults to the retry options of the hook rendering this key
+  retryConfig?: Partial<RetryConfig>;
+  cacheStrategy?: string;
+  client?: DataCacheClient;
+  // Abort the request already in flight for this key instead of joining it
+  cancelRefetch?: boolean;
+}
+
+// A mutation still in flight or queued offline owns these until it settles,
+// so a refetch landing meanwhile must not drop them
+function pendingMutationFields(state: DataState<any> | undefined): Pick<DataState<any>, "optimisticData" | "syncStatus"> {
+  return { optimisticData: state?.optimisticData, syncStatus: state?.syncStatus };
+}
+
+/**
+ * Fetches `queryKey` into the cache. Concurrent callers for the same key share
+ * one in-flight request and receive the same promise, which settles with the
+ * fetch and never rejects, so a server render can await it.
+ */
 export function prefetchData<T>(
-  key: string,
+  queryKey: QueryKey,
   fn: FetchFunction<T>,
-  options: { refetching?: boolean; retryConfig?: any; cacheStrategy?: string } = {}
-) {
-  const existingController = dataCache.get(key)?.controller;
-  if (existingController && dataCache.get(key)?.status === "loading") {
-    existingController.abort();
+  options: PrefetchOptions = {}
+): Promise<void> {
+  const client = options.client ?? defaultDataCacheClient;
+  const { dataCache, performanceMonitor } = client;
+  const key = client.registerQuery(queryKey, fn);
+  const existing = dataCache.get(key);
+  const inFlight = existing?.status === "loading" || existing?.status === "isRefetching";
+
+  if (inFlight && existing?.promise && !options.cancelRefetch) {
+    return existing.promise;
+  }
+
+  if (inFlight && existing?.controller) {
+    existing.controller.abort();
   }
 
   const newController = new AbortController();
   const signal = newController.signal;
+  const refetching = options.refetching || existing?.status === "isRefetching";
+  const previousPayload = existing?.status === "success" || existing?.status === "isRefetching"
+    ? existing.payload
+    : null;
+  const statusBeforeRefetch = existing?.status === "isRefetching"
+    ? existing.statusBeforeRefetch
+    : existing?.status === "success" || existing?.status === "error" ? existing.status : undefined;
 
   dataCache.set(key, {
-    status: options.refetching ? "isRefetching" : "loading",
-    payload: null,
+    status: refetching ? "isRefetching" : "loading",
+    // Keep showing the previous payload while refetching
+    payload: refetching ? previousPayload : null,
     controller: newController,
-    timestamp: Date.now(),
+    // Keep the age of the previous payload in case the refetch is cancelled
+    timestamp: refetching ? existing?.timestamp : Date.now(),
+    // Realtime messages keep being checked against the last version seen
+    version: existing?.version,
+    ...pendingMutationFields(existing),
+    // A cancelled refetch goes back to the previous payload or error
+    ...(refetching && { statusBeforeRefetch, lastError: existing?.lastError }),
   });
 
+  // Entries nobody renders are still garbage collected after cacheTime
+  client.scheduleEviction(key);
+
+  // A cancelled or superseded request must not overwrite the entry
+  const isCurrent = () => dataCache.get(key)?.controller === newController;
+
   // Performance monitoring
   const startTime = performanceMonitor.startFetch();
 
-  // Retry logic
-  const retryManager = createRetryManager({
-    attempts: options.retryConfig?.attempts || 3,
-    delay: options.retryConfig?.delay || 1000,
-    exponentialBackoff: options.retryConfig?.exponentialBackoff !== false,
-    onError: options.retryConfig?.onError
-  });
+  // Retry logic; every attempt passes the breaker, so an open circuit also stops
+  // retries, and waits for a scheduler slot, which is not held between attempts
+  const retryConfig = options.retryConfig ?? client.getRetryConfig(key);
+  const retryManager = createRetryManager(retryConfig);
+  const group = client.circuitBreaker.getGroup(queryKey);
+  const host = client.fetchScheduler.getHost(queryKey);
+  const attempt = () => client.circuitBreaker.execute(group,
+    () => client.fetchScheduler.schedule(() => fn(signal), { host, signal }));
 
   const executeFetch = async () => {
     try {
-      const data = await fn(signal);
+      const data = retryConfig
+        ? await retryManager.execute(attempt, signal)
+        : await attempt();
+      if (!isCurrent()) return;
       
       // Record successful fetch
       performanceMonitor.endFetch(startTime, true);
       
       dataCache.set(key, {
         status: "success",
-        payload: data,
+        // Unchanged subtrees keep their identity so memoized consumers skip rendering
+        payload: replaceEqualDeep(dataCache.get(key)?.payload, data),
         timestamp: Date.now(),
         retryCount: retryManager.getCurrentAttempt(),
+        version: dataCache.get(key)?.version,
+        ...pendingMutationFields(dataCache.get(key)),
       });
     } catch (error: any) {
-      if (error?.name !== "AbortError") {
+      if (error?.name !== "AbortError" && isCurrent()) {
         // Record failed fetch
         performanceMonitor.endFetch(startTime, false);
         performanceMonitor.recordRetry();
@@ -57,81 +116,139 @@ export function prefetchData<T>(
           payload: error,
           retryCount: retryManager.getCurrentAttempt(),
           lastError: error,
+          version: dataCache.get(key)?.version,
+          ...pendingMutationFields(dataCache.get(key)),
         });
       }
     } finally {
-      window.dispatchEvent(new Event("dataFetched"));
+      client.notify(key);
     }
   };
 
-  // Execute with retry logic if enabled
-  if (options.retryConfig) {
-    retryManager.execute(executeFetch).catch((error) => {
-      // Final error handling after all retries
-      dataCache.set(key, {
-        status: "error",
-        payload: error,
-        retryCount: retryManager.getCurrentAttempt(),
-        lastError: error,
-      });
-      window.dispatchEvent(new Event("dataFetched"));
-    });
-  } else {
-    executeFetch();
+  const promise = executeFetch();
+
+  const current = dataCache.get(key);
+  if (current && isCurrent()) {
+    dataCache.set(key, { ...current, promise });
   }
+
+  return promise;
 }
 
-export function prefetchMulti(
-  dataSources: { key: string; fn: FetchFunction<any> }[],
-  options?: { 
-    urlBasedPrefetching?: boolean;
-    retryConfig?: any;
-    cacheStrategy?: string;
-    batchSize?: number;
-  }
-) {
-  if (options?.urlBasedPrefetching) {
+export interface PrefetchMultiOptions {
+  urlBasedPrefetching?: boolean;
+  retryConfig?: Partial<RetryConfig>;
+  cacheStrategy?: string;
+  // Sources per batch; a batch starts once the previous one has settled (default: 5)
+  batchSize?: number;
+  // Keeps this many sources in flight instead, starting the next as soon as one settles
+  concurrency?: number;
+  // Aborting cancels the requests this call started and skips the sources not started yet
+  signal?: AbortSignal;
+  client?: DataCacheClient;
+}
+
+/**
+ * Prefetches `dataSources` in sequential batches, or through a pool when
+ * `concurrency` is set, and resolves with one result per source in order.
+ * Requests still go through the client's fetch scheduler, so its global and
+ * per-host limits apply across concurrent calls as well.
+ */
+export async function prefetchMulti(
+  dataSources: { key: QueryKey; fn: FetchFunction<any> }[],
+  options: PrefetchMultiOptions = {}
+): Promise<PrefetchResult[]> {
+  const client = options.client ?? defaultDataCacheClient;
+  const { signal } = options;
+
+  if (options.urlBasedPrefetching && !isServer) {
     dataSources = dataSources.filter(
-      (ds) => ds.key === window.location.pathname
+      (ds) => hashQueryKey(ds.key) === window.location.pathname
     );
   }
 
-  // Batch processing for better performance
-  const batchSize = options?.batchSize || 5;
-  const batches = [];
-  
-  for (let i = 0; i < dataSources.length; i += batchSize) {
-    batches.push(dataSources.slice(i, i + batchSize));
-  }
+  const results: PrefetchResult[] = new Array(dataSources.length);
+  // Requests this call started, as opposed to joined, by key hash
+  const started = new Map<string, AbortController | undefined>();
 
-  const prefetchBatch = (batch: typeof dataSources) => {
-    return Promise.all(
-      batch.map(({ key, fn }) => 
-        prefetchData(key, fn, {
-          retryConfig: options?.retryConfig,
-          cacheStrategy: options?.cacheStrategy
-        })
-      )
-    );
+  const cancelStarted = () => {
+    started.forEach((controller, hash) => {
+      // A hook rendering the key keeps its request
+      if (client.dataCache.get(hash)?.controller === controller && client.getObserverCount(hash) === 0) {
+        client.cancelQuery(hash);
+      }
+    });
   };
+  signal?.addEventListener("abort", cancelStarted, { once: true });
+
+  const run = async (index: number) => {
+    const { key, fn } = dataSources[index];
+    if (signal?.aborted) {
+      results[index] = { key, status: "cancelled" };
+      return;
+    }
+
+    const hash = hashQueryKey(key);
+    const previous = client.dataCache.get(hash)?.controller;
+    const promise = prefetchData(key, fn, {
+      retryConfig: options.retryConfig,
+      cacheStrategy: options.cacheStrategy,
+      client
+    });
+    const controller = client.dataCache.get(hash)?.controller;
+    if (controller !== previous) started.set(hash, controller);
+
+    await promise;
+    started.delete(hash);
+
+    const state = client.dataCache.get(hash);
+    results[index] = state?.status === "success"
+      ? { key, status: "success", data: state.payload }
+      : state?.status === "error"
+        ? { key, status: "error", error: state.payload }
+        : { key, status: "cancelled" };
+  };
+
+  try {
+    if (options.concurrency) {
+      let next = 0;
+      const worker = async () => {
+        while (next < dataSources.length) {
+          await run(next++);
+        }
+      };
+      const size = Math.min(options.concurrency, dataSources.length);
+      await Promise.all(Array.from({ length: size }, worker));
+    } else {
+      const batchSize = options.batchSize || 5;
+      for (let i = 0; i < dataSources.length; i += batchSize) {
+        const batch = dataSources.slice(i, i + batchSize).map((_, offset) => run(i + offset));
+        await Promise.all(batch);
+      }
+    }
+  } finally {
+    signal?.removeEventListener("abort", cancelStarted);
+  }
 
-  return Promise.all(batches.map(prefetchBatch));
+  return results;
 }
 
-export function prefetchOnEvent<T>(key: string, fn: FetchFunction<T>, options?: any) {
-  if (!dataCache.has(key)) {
+export function prefetchOnEvent<T>(key: QueryKey, fn: FetchFunction<T>, options?: any) {
+  const client: DataCacheClient = options?.client ?? defaultDataCacheClient;
+  if (!client.dataCache.has(hashQueryKey(key))) {
     prefetchData(key, fn, options);
   }
 }
 
 // Enhanced prefetching with advanced features
 export function prefetchWithStrategy<T>(
-  key: string,
+  key: QueryKey,
   fn: FetchFunction<T>,
   strategy: "cache-first" | "network-first" | "stale-while-revalidate" = "cache-first",
   options?: any
 ) {
-  const cached = dataCache.get(key);
+  const client: DataCacheClient = options?.client ?? defaultDataCacheClient;
+  const cached = client.dataCache.get(hashQueryKey(key));
   
   switch (strategy) {
     case "cache-first":
@@ -160,16 +277,17 @@ export function prefetchWithStrategy<T>(
 
 // Background sync prefetching
 export function prefetchInBackground<T>(
-  key: string,
+  key: QueryKey,
   fn: FetchFunction<T>,
-  interval: number = 30000
+  interval: number = 30000,
+  client: DataCacheClient = defaultDataCacheClient
 ) {
   // Initial fetch
-  prefetchData(key, fn);
+  prefetchData(key, fn, { client });
   
   // Set up background sync
   const syncInterval = setInterval(() => {
-    prefetchData(key, fn, { refetching: true });
+    prefetchData(key, fn, { refetching: true, client });
   }, interval);
   
   // Return cleanup function
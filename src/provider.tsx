@@ -0,0 +1,19 @@
+import { createContext, useContext, ReactNode } from "react";
+import { DataCacheClient, defaultDataCacheClient } from "./client";
+
+export const DataCacheContext = createContext<DataCacheClient>(defaultDataCacheClient);
+
+export interface DataCacheProviderProps {
+  client: DataCacheClient;
+  children?: ReactNode;
+}
+
+export function DataCacheProvider({ client, children }: DataCacheProviderProps) {
+  return <DataCacheContext.Provider value={client}>{children}</DataCacheContext.Provider>;
+}
+
+// An explicit client wins over the one provided by context.
+export function useDataCacheClient(client?: DataCacheClient): DataCacheClient {
+  const contextClient = useContext(DataCacheContext);
+  return client ?? contextClient;
+}
@@ -0,0 +1,162 @@
+import { useEffect, useRef, useState } from "react";
+import {
+  CacheEntryType,
+  QueryObserver,
+  RealtimeConnectionState,
+  UseDataOptions
+} from "./types";
+import { DataCacheClient } from "./client";
+import { QueryKey } from "./queryKey";
+import { RealtimeSubscription } from "./realtime";
+import { isServer, defaultStaleTime } from "./utils";
+
+// Effects shared by useData and useUniversalInfiniteQuery. `cache` names the
+// map the hook's entry lives in; `hash` is its hashed key.
+
+function getEntry(client: DataCacheClient, cache: CacheEntryType, hash: string) {
+  return cache === "data" ? client.dataCache.get(hash) : client.infiniteCache.get(hash);
+}
+
+type RevalidationOptions = Pick<UseDataOptions, "staleTime" | "refetchOnWindowFocus" | "refetchOnReconnect" | "cacheTime">;
+
+/**
+ * Lets invalidateQueries, window focus and reconnects refetch this key while
+ * the component is mounted; the entry is evicted `cacheTime` after the last
+ * observer unmounts. Focus and reconnects only refetch stale or invalidated
+ * data unless the option is "always".
+ */
+export function useQueryObserver(
+  client: DataCacheClient,
+  cache: CacheEntryType,
+  hash: string,
+  enabled: boolean,
+  options: RevalidationOptions,
+  refetch: QueryObserver["refetch"]
+): void {
+  const latest = useRef({ enabled, options, refetch });
+  latest.current = { enabled, options, refetch };
+
+  useEffect(() => {
+    const addObserver = cache === "data" ? client.addObserver : client.addInfiniteObserver;
+    return addObserver.call(client, hash, {
+      refetch: (refetchOptions) => {
+        if (latest.current.enabled) latest.current.refetch(refetchOptions);
+      },
+      shouldRefetchOn: (event) => {
+        const { enabled, options } = latest.current;
+        const refetchOn = event === "focus" ? options.refetchOnWindowFocus : options.refetchOnReconnect;
+        const state = getEntry(client, cache, hash);
+        if (!enabled || refetchOn === false || state?.status !== "success") return false;
+        return refetchOn === "always" || !!state.isInvalidated ||
+          Date.now() - (state.timestamp || 0) > (options.staleTime ?? defaultStaleTime);
+      }
+    }, options.cacheTime);
+  }, [client, cache, hash]);
+}
+
+export interface PollingOptions {
+  refetchInterval?: number | false | ((data: any) => number | false);
+  refetchIntervalInBackground?: boolean;
+  // What an interval function is called with
+  getData: () => any;
+  refetch: () => void;
+}
+
+/**
+ * Polls the key with `refetchInterval`. Components polling the same key share
+ * one timer on the client, so each interval produces a single request.
+ */
+export function usePolling(
+  client: DataCacheClient,
+  cache: CacheEntryType,
+  hash: string,
+  enabled: boolean,
+  options: PollingOptions
+): void {
+  const latest = useRef(options);
+  latest.current = options;
+
+  const hasRefetchInterval = enabled && !!options.refetchInterval && !isServer;
+  // Numeric intervals restart the timer when they change; functions are read on each tick
+  const refetchIntervalMs = typeof options.refetchInterval === "number" ? options.refetchInterval : undefined;
+  const inBackground = !!options.refetchIntervalInBackground;
+
+  useEffect(() => {
+    if (!hasRefetchInterval) return;
+
+    const pollId = `${cache}:${hash}`;
+    const unsubscribePolling = client.pollingManager.subscribe(pollId, {
+      interval: () => {
+        const { refetchInterval, getData } = latest.current;
+        return typeof refetchInterval === "function" ? refetchInterval(getData()) : refetchInterval;
+      },
+      inBackground,
+      refetch: () => latest.current.refetch()
+    });
+    // An interval function that paused polling is asked again whenever the data changes
+    const unsubscribeCache = client.subscribe(hash, () => client.pollingManager.refresh(pollId), cache);
+    return () => {
+      unsubscribeCache();
+      unsubscribePolling();
+    };
+  }, [client, cache, hash, hasRefetchInterval, refetchIntervalMs, inBackground]);
+}
+
+type RealtimeOptions = Pick<
+  UseDataOptions,
+  | "realtime"
+  | "subscriptionUrl"
+  | "onUpdate"
+  | "mapMessage"
+  | "realtimeTransport"
+  | "realtimeFrames"
+  | "realtimeHeartbeat"
+  | "realtimeReconnect"
+>;
+
+/**
+ * Subscribes the key to its realtime endpoint while mounted; hooks with the
+ * same subscriptionUrl share one connection.
+ */
+export function useRealtimeSubscription(
+  client: DataCacheClient,
+  queryKey: QueryKey,
+  hash: string,
+  options: RealtimeOptions
+): { connectionState: RealtimeConnectionState; reconnect: () => void } {
+  const subscriptionRef = useRef<RealtimeSubscription | null>(null);
+  const [connectionState, setConnectionState] = useState<RealtimeConnectionState>("closed");
+  const latest = useRef(options);
+  latest.current = options;
+
+  useEffect(() => {
+    if (!options.realtime || !options.subscriptionUrl || isServer) return;
+
+    const subscription = client.realtimeConnections.subscribe({
+      url: options.subscriptionUrl,
+      queryKey,
+      transport: options.realtimeTransport,
+      frames: options.realtimeFrames,
+      heartbeat: options.realtimeHeartbeat,
+      reconnect: options.realtimeReconnect,
+      mapMessage: latest.current.mapMessage &&
+        ((message, meta) => latest.current.mapMessage?.(message, meta)),
+      onUpdate: (message, meta) => latest.current.onUpdate?.(message, meta)
+    });
+    subscriptionRef.current = subscription;
+    setConnectionState(subscription.getState());
+    const stopWatchingState = subscription.subscribeState(setConnectionState);
+
+    return () => {
+      stopWatchingState();
+      subscription.unsubscribe();
+      subscriptionRef.current = null;
+      setConnectionState("closed");
+    };
+  }, [client, hash, options.realtime, options.subscriptionUrl]);
+
+  return {
+    connectionState,
+    reconnect: () => subscriptionRef.current?.reconnect()
+  };
+}
@@ -0,0 +1,58 @@
+import { isPlainObject } from "./utils";
+
+// A query key is either a plain string (the original key format) or an array
+// of serializable values such as `['todos', { status: 'done', page: 2 }]`.
+export type QueryKey = string | readonly unknown[];
+
+/**
+ * Produces the string used to index the cache maps. String keys hash to
+ * themselves so existing `dataCache.get('posts')` lookups keep working;
+ * array keys are JSON-encoded with object keys sorted, so
+ * `{ a: 1, b: 2 }` and `{ b: 2, a: 1 }` hash identically while
+ * `['a:b']` and `['a', 'b']` stay distinct.
+ */
+export function hashQueryKey(key: QueryKey): string {
+  if (typeof key === "string") return key;
+
+  return JSON.stringify(key, (_, value) => {
+    if (!isPlainObject(value)) return value;
+    return Object.keys(value)
+      .sort()
+      .reduce<Record<string, unknown>>((sorted, name) => {
+        sorted[name] = value[name];
+        return sorted;
+      }, {});
+  });
+}
+
+function toKeyArray(key: QueryKey): readonly unknown[] {
+  return typeof key === "string" ? [key] : key;
+}
+
+function partialDeepEqual(value: unknown, filter: unknown): boolean {
+  if (value === filter) return true;
+  if (typeof value !== typeof filter) return false;
+  if (value && filter && typeof value === "object" && typeof filter === "object") {
+    return Object.keys(filter).every((name) =>
+      partialDeepEqual((value as any)[name], (filter as any)[name])
+    );
+  }
+  return false;
+}
+
+/**
+ * Checks whether `queryKey` is matched by `filterKey`. A string key is treated
+ * as a one-element array, so `'todos'` and `['todos']` are interchangeable.
+ * Non-exact matching is a prefix match where object segments only need to
+ * contain the properties named in the filter.
+ */
+export function matchQueryKey(queryKey: QueryKey, filterKey: QueryKey, exact = false): boolean {
+  const key = toKeyArray(queryKey);
+  const filter = toKeyArray(filterKey);
+
+  if (exact) {
+    return hashQueryKey(key) === hashQueryKey(filter);
+  }
+
+  return filter.length <= key.length && filter.every((segment, index) => partialDeepEqual(key[index], segment));
+}
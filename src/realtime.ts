@@ -0,0 +1,364 @@
+import {
+  RealtimeConnectionState,
+  RealtimeFrames,
+  RealtimeHeartbeatConfig,
+  RealtimeMessage,
+  RealtimeMessageMeta,
+  RealtimeReconnectConfig,
+  RealtimeTransportOption
+} from "./types";
+import { DataCacheClient } from "./client";
+import { QueryKey, hashQueryKey, matchQueryKey } from "./queryKey";
+import { isPlainObject, replaceEqualDeep } from "./utils";
+import { createRealtimeManager, RealtimeManager } from "./enhancements";
+import { applyJsonPatch } from "./jsonPatch";
+
+const messageTypes = ["set", "merge", "invalidate", "patch"];
+
+export function isRealtimeMessage(message: unknown): message is RealtimeMessage {
+  return isPlainObject(message) && messageTypes.includes((message as any).type);
+}
+
+function mergeData(current: any, data: any) {
+  return isPlainObject(current) && isPlainObject(data) ? { ...current, ...data } : data;
+}
+
+// Where a versioned message falls relative to the cached entry
+function checkVersion(current: number | undefined, version: number | undefined): "apply" | "stale" | "gap" {
+  if (version === undefined || current === undefined) return "apply";
+  if (version <= current) return "stale";
+  return version === current + 1 ? "apply" : "gap";
+}
+
+// Returns the next value, or undefined when the entry has to be refetched instead
+function nextValue(current: any, message: RealtimeMessage, version: number | undefined): { value: any } | undefined {
+  const check = checkVersion(version, message.version);
+  if (check === "stale") return { value: current };
+  // A full value does not depend on what was missed
+  if (check === "gap" && message.type !== "set") return undefined;
+
+  switch (message.type) {
+    case "merge":
+      return { value: mergeData(current, message.data) };
+    case "patch":
+      try {
+        return { value: applyJsonPatch(current, message.patch ?? []) };
+      } catch (error) {
+        console.error("Failed to apply realtime patch:", error);
+        return undefined;
+      }
+    default:
+      return { value: message.data };
+  }
+}
+
+function maxVersion(current: number | undefined, version: number | undefined): number | undefined {
+  return current === undefined || version === undefined ? current ?? version : Math.max(current, version);
+}
+
+// Requests in flight that already have a refetch queued behind them
+const refetchesAfterFetch = new WeakSet<Promise<void>>();
+
+// A request in flight may have started before a message it cannot reflect, so
+// the key is refetched once more after it lands
+function refetchAfterFetch(client: DataCacheClient, queryKey: QueryKey, promise: Promise<void> | undefined): void {
+  if (!promise) {
+    client.invalidateQueries({ key: queryKey, exact: true });
+    return;
+  }
+  if (refetchesAfterFetch.has(promise)) return;
+  refetchesAfterFetch.add(promise);
+  promise.then(() => client.invalidateQueries({ key: queryKey, exact: true }));
+}
+
+/**
+ * Applies one routed message to the `dataCache` and `infiniteCache` entries of
+ * its key and notifies their subscribers. Keys that are not cached are ignored.
+ * A `merge` or `patch` that skips a version, or a patch that fails to apply,
+ * invalidates the key so it is refetched in full. The version of a message
+ * that is not applied is still recorded, so later messages are checked
+ * against it rather than trusted.
+ */
+export function applyRealtimeMessage(client: DataCacheClient, message: RealtimeMessage): void {
+  if (message.key === undefined) return;
+  const key = hashQueryKey(message.key);
+  const isVersioned = message.version !== undefined;
+  let refetch = message.type === "invalidate";
+
+  const state = client.dataCache.get(key);
+  if (!refetch && state) {
+    const inFlight = state.status === "loading" || state.status === "isRefetching";
+    // Patches need the current document; a refetch in flight will bring a newer one anyway
+    const canApply = message.type === "set" ||
+      state.status === "success" ||
+      (state.status === "isRefetching" && message.type !== "patch");
+    const next = canApply ? nextValue(state.payload, message, state.version) : undefined;
+
+    if (canApply && !next) {
+      refetch = true;
+    } else if (next && (next.value !== state.payload || (message.type === "set" && state.status !== "success"))) {
+      // A pushed value is at least as fresh as a request still in flight
+      if (inFlight) {
+        state.controller?.abort();
+      }
+      const { controller, promise, ...rest } = state;
+      client.dataCache.set(key, {
+        ...rest,
+        status: "success",
+        payload: replaceEqualDeep(state.payload, next.value),
+        timestamp: Date.now(),
+        isInvalidated: false,
+        version: message.version ?? state.version
+      });
+      client.notify(key);
+    } else if (!canApply && isVersioned) {
+      client.dataCache.set(key, { ...state, version: maxVersion(state.version, message.version) });
+    }
+
+    // A full value replaced the request in flight; anything else may be overwritten by it
+    if (!refetch && inFlight && isVersioned && message.type !== "set") {
+      refetchAfterFetch(client, message.key, state.promise);
+    }
+  }
+
+  const infiniteState = client.infiniteCache.get(key);
+  const page = message.page ?? 0;
+  if (!refetch && infiniteState && infiniteState.status === "loading" && isVersioned) {
+    // A full refetch in flight would overwrite the page with what it started from
+    client.infiniteCache.set(key, { ...infiniteState, version: maxVersion(infiniteState.version, message.version) });
+    refetchAfterFetch(client, message.key, infiniteState.promise);
+  } else if (!refetch && infiniteState && infiniteState.status !== "loading" && page < infiniteState.pages.length) {
+    const next = nextValue(infiniteState.pages[page], message, infiniteState.version);
+    if (!next) {
+      refetch = true;
+    } else if (next.value !== infiniteState.pages[page]) {
+      const pages = [...infiniteState.pages];
+      pages[page] = replaceEqualDeep(pages[page], next.value);
+      client.infiniteCache.set(key, {
+        ...infiniteState,
+        pages,
+        timestamp: Date.now(),
+        version: message.version ?? infiniteState.version
+      });
+      client.notifyInfinite(key);
+    }
+  }
+
+  if (refetch) {
+    // The refetch starts after this message, so its result reflects at least this version
+    if (isVersioned) {
+      const current = client.dataCache.get(key);
+      if (current) client.dataCache.set(key, { ...current, version: maxVersion(current.version, message.version) });
+      const currentInfinite = client.infiniteCache.get(key);
+      if (currentInfinite) {
+        client.infiniteCache.set(key, { ...currentInfinite, version: maxVersion(currentInfinite.version, message.version) });
+      }
+    }
+    client.invalidateQueries({ key: message.key, exact: true });
+  }
+}
+
+/**
+ * Routes a parsed message received by a realtime subscription of `queryKey`.
+ * `mapMessage` may turn it into any number of messages; keyless ones target
+ * `queryKey`.
+ */
+export function routeRealtimeMessage(
+  client: DataCacheClient,
+  message: unknown,
+  meta: RealtimeMessageMeta,
+  queryKey: QueryKey,
+  mapMessage?: (message: any, meta: RealtimeMessageMeta) => RealtimeMessage | RealtimeMessage[] | null | undefined
+): void {
+  resolveRealtimeMessages(message, meta, queryKey, mapMessage).forEach((routed) => {
+    applyRealtimeMessage(client, routed);
+  });
+}
+
+// The cache updates a received message stands for; keyless ones target `queryKey`,
+// or are left out when `keyless` is "skip", and keys equal to it in another form
+// ('todos' for ['todos']) are normalized to it
+function resolveRealtimeMessages(
+  message: unknown,
+  meta: RealtimeMessageMeta,
+  queryKey: QueryKey,
+  mapMessage?: (message: any, meta: RealtimeMessageMeta) => RealtimeMessage | RealtimeMessage[] | null | undefined,
+  keyless: "target" | "skip" = "target"
+): RealtimeMessage[] {
+  const mapped = mapMessage ? mapMessage(message, meta) : isRealtimeMessage(message) ? message : null;
+  if (!mapped) return [];
+
+  return (Array.isArray(mapped) ? mapped : [mapped])
+    .filter((routed) => routed.key !== undefined || keyless === "target")
+    .map((routed) => ({
+      ...routed,
+      key: routed.key === undefined || matchQueryKey(routed.key, queryKey, true) ? queryKey : routed.key
+    }));
+}
+
+export interface RealtimeSubscriptionOptions {
+  url: string;
+  queryKey: QueryKey;
+  // The first subscriber of a URL decides its transport, frames, heartbeat and reconnect policy
+  transport?: RealtimeTransportOption;
+  frames?: RealtimeFrames | false;
+  heartbeat?: RealtimeHeartbeatConfig;
+  reconnect?: RealtimeReconnectConfig;
+  mapMessage?: (message: any, meta: RealtimeMessageMeta) => RealtimeMessage | RealtimeMessage[] | null | undefined;
+  onUpdate?: (message: any, meta: RealtimeMessageMeta) => void;
+}
+
+export interface RealtimeSubscription {
+  unsubscribe: () => void;
+  isConnected: () => boolean;
+  getState: () => RealtimeConnectionState;
+  subscribeState: (listener: (state: RealtimeConnectionState) => void) => () => void;
+  // Reconnects the shared connection, for every subscriber of its URL
+  reconnect: () => void;
+  send: (data: any) => void;
+}
+
+interface PooledConnection {
+  manager: RealtimeManager;
+  frames: RealtimeFrames | false;
+  topics: Map<string, { queryKey: QueryKey; subscribers: Set<RealtimeSubscriptionOptions> }>;
+  teardownTimer?: ReturnType<typeof setTimeout>;
+}
+
+const defaultFrames: RealtimeFrames = {
+  subscribe: (queryKey) => ({ type: "subscribe", key: queryKey }),
+  unsubscribe: (queryKey) => ({ type: "unsubscribe", key: queryKey })
+};
+
+/**
+ * Shares one realtime connection per URL between every hook of a client.
+ * Each key is subscribed with a frame over the shared connection, and all
+ * keys are subscribed again whenever the connection is re-established.
+ */
+export class RealtimeConnectionPool {
+  private connections = new Map<string, PooledConnection>();
+
+  constructor(private client: DataCacheClient) {}
+
+  subscribe(options: RealtimeSubscriptionOptions): RealtimeSubscription {
+    const { url } = options;
+    let connection = this.connections.get(url);
+    if (!connection) {
+      connection = this.createConnection(options);
+      this.connections.set(url, connection);
+    }
+    if (connection.teardownTimer !== undefined) {
+      clearTimeout(connection.teardownTimer);
+      connection.teardownTimer = undefined;
+    }
+
+    const topic = hashQueryKey(options.queryKey);
+    let group = connection.topics.get(topic);
+    if (!group) {
+      group = { queryKey: options.queryKey, subscribers: new Set() };
+      connection.topics.set(topic, group);
+      if (connection.frames && connection.manager.isConnected()) {
+        connection.manager.send(connection.frames.subscribe(options.queryKey));
+      }
+    }
+    group.subscribers.add(options);
+
+    const current = connection;
+    return {
+      unsubscribe: () => this.unsubscribe(url, current, topic, options),
+      isConnected: () => current.manager.isConnected(),
+      getState: () => current.manager.getState(),
+      subscribeState: (listener) => current.manager.subscribe(listener),
+      reconnect: () => current.manager.reconnect(),
+      send: (data) => current.manager.send(data)
+    };
+  }
+
+  getConnectionCount(): number {
+    return this.connections.size;
+  }
+
+  private createConnection(options: RealtimeSubscriptionOptions): PooledConnection {
+    const connection: PooledConnection = {
+      frames: options.frames === false ? false : options.frames ?? defaultFrames,
+      topics: new Map(),
+      manager: createRealtimeManager({
+        enabled: true,
+        subscriptionUrl: options.url,
+        transport: options.transport,
+        heartbeat: options.heartbeat,
+        reconnect: options.reconnect,
+        // Runs after every (re)connect, so a dropped connection gets all its keys back
+        onConnect: () => {
+          const { frames } = connection;
+          if (!frames) return;
+          connection.topics.forEach(({ queryKey }) => connection.manager.send(frames.subscribe(queryKey)));
+        },
+        onUpdate: (message, meta) => this.dispatch(connection, message, meta)
+      })
+    };
+    connection.manager.connect();
+    return connection;
+  }
+
+  // Messages naming a subscribed key go to that key's subscribers; anything
+  // else goes to every key on the connection
+  private dispatch(connection: PooledConnection, message: any, meta: RealtimeMessageMeta): void {
+    const messageKey: QueryKey | undefined = isPlainObject(message) ? (message as any).key : undefined;
+    const topics = Array.from(connection.topics.values());
+    const match = messageKey !== undefined
+      ? topics.find(({ queryKey }) => matchQueryKey(queryKey, messageKey, true))
+      : undefined;
+
+    // A broadcast update is applied once per key it targets, not once per topic it reaches
+    const applied = new Set<string>();
+    // Which of several keys a keyless update is meant for is unknown, so it only reaches onUpdate
+    const keyless = match || topics.length === 1 ? "target" : "skip";
+    (match ? [match] : topics).forEach(({ queryKey, subscribers }) => {
+      // The cache is updated once per key; every subscriber still hears about it
+      const [primary] = Array.from(subscribers);
+      if (primary) {
+        const updated = new Set<string>();
+        resolveRealtimeMessages(message, meta, queryKey, primary.mapMessage, keyless).forEach((routed) => {
+          const hash = hashQueryKey(routed.key!);
+          if (applied.has(hash)) return;
+          updated.add(hash);
+          applyRealtimeMessage(this.client, routed);
+        });
+        updated.forEach((hash) => applied.add(hash));
+      }
+      subscribers.forEach((subscriber) => subscriber.onUpdate?.(message, meta));
+    });
+  }
+
+  private unsubscribe(
+    url: string,
+    connection: PooledConnection,
+    topic: string,
+    options: RealtimeSubscriptionOptions
+  ): void {
+    const group = connection.topics.get(topic);
+    if (!group || !group.subscribers.delete(options)) return;
+
+    if (group.subscribers.size === 0) {
+      connection.topics.delete(topic);
+      if (connection.frames && connection.manager.isConnected()) {
+        connection.manager.send(connection.frames.unsubscribe(group.queryKey));
+      }
+    }
+
+    // Deferred so that a strict-mode unmount/remount keeps its connection
+    if (connection.topics.size === 0 && connection.teardownTimer === undefined) {
+      connection.teardownTimer = setTimeout(() => {
+        connection.teardownTimer = undefined;
+        if (connection.topics.size > 0 || this.connections.get(url) !== connection) return;
+        this.connections.delete(url);
+        connection.manager.disconnect();
+      }, 0);
+    }
+  }
+}
+
+export function createRealtimeConnectionPool(client: DataCacheClient): RealtimeConnectionPool {
+  return new RealtimeConnectionPool(client);
+}
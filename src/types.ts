@@ -1,9 +1,14 @@
+import type { DataCacheClient } from "./client";
+import type { QueryKey } from "./queryKey";
+
 export type FetchFunction<T> = (signal: AbortSignal) => Promise<T>;
 
 export interface DataState<T> {
   status: "idle" | "loading" | "success" | "error" | "isRefetching";
   payload: T | null;
   controller?: AbortController;
+  // Shared by every prefetchData call made while the request is in flight
+  promise?: Promise<void>;
   timestamp?: number;
   // New fields for enhancements
   optimisticData?: T;
@@ -11,33 +16,83 @@ export interface DataState<T> {
   lastError?: any;
   syncStatus?: "online" | "offline" | "syncing";
   metrics?: PerformanceMetrics;
+  // Set by invalidateQueries until the next successful fetch
+  isInvalidated?: boolean;
+  // Sequence number of the last versioned realtime message applied
+  version?: number;
+  // What cancelQuery restores while a refetch is in flight
+  statusBeforeRefetch?: "success" | "error";
 }
 
-export interface UseDataOptions {
+export type LazyFetchFunction<TArgs, T> = (args: TArgs, signal: AbortSignal) => Promise<T>;
+
+export interface UseDataOptions<TData = any, TSelected = TData> {
   staleTime?: number;
   refetchOnMount?: boolean;
+  // Refetch stale data when the window regains focus; "always" ignores staleness (default: true)
+  refetchOnWindowFocus?: boolean | "always";
+  // Refetch stale data when the network comes back; "always" ignores staleness (default: true)
+  refetchOnReconnect?: boolean | "always";
   noCache?: boolean;
+  // While false the query never fetches on its own (dependent queries)
+  enabled?: boolean;
+  // Derives the returned data; the component only re-renders when the result changes
+  select?: (data: TData) => TSelected;
+  // Shown while the current key has no data yet; a function receives the previous key's data
+  placeholderData?: TData | ((previousData: TData | undefined, previousKey: QueryKey | undefined) => TData | undefined);
+  // Keep showing the last successful data while a new key loads
+  keepPreviousData?: boolean;
+  // Poll this key; a function receives the latest data and may return false to pause
+  refetchInterval?: number | false | ((data: TData | undefined) => number | false);
+  // Keep polling while the tab is hidden (default: false)
+  refetchIntervalInBackground?: boolean;
   // High Priority Enhancements
   optimisticUpdates?: boolean;
+  // Retries after the first failure, or a predicate; overrides retryAttempts
+  retry?: RetryConfig["retry"];
+  // Total attempts including the first one
   retryAttempts?: number;
-  retryDelay?: number;
+  retryDelay?: number | ((attempt: number, error: any) => number);
   exponentialBackoff?: boolean;
+  retryJitter?: RetryJitter;
+  maxRetryDelay?: number;
   onError?: (error: any, attempt: number) => void;
   backgroundSync?: boolean;
   offlineSupport?: boolean;
   // Medium Priority Enhancements
   realtime?: boolean;
   subscriptionUrl?: string;
-  onUpdate?: (newData: any) => void;
+  onUpdate?: (newData: any, meta: RealtimeMessageMeta) => void;
+  // Turns an incoming message into cache updates; by default messages shaped
+  // like RealtimeMessage are applied and anything else only reaches onUpdate
+  mapMessage?: (message: any, meta: RealtimeMessageMeta) => RealtimeMessage | RealtimeMessage[] | null | undefined;
+  // "websocket" (default), "sse" for text/event-stream endpoints, or a custom transport factory
+  realtimeTransport?: RealtimeTransportOption;
+  // Subscribe/unsubscribe frames sent per key over the shared connection; false sends none
+  realtimeFrames?: RealtimeFrames | false;
+  realtimeHeartbeat?: RealtimeHeartbeatConfig;
+  realtimeReconnect?: RealtimeReconnectConfig;
   cacheStrategy?: "default" | "stale-while-revalidate" | "cache-first" | "network-first";
   cacheTime?: number;
   backgroundRefetch?: boolean;
   enableMetrics?: boolean;
   onMetrics?: (metrics: PerformanceMetrics) => void;
+  // Throw the in-flight promise to the nearest <Suspense> while loading
+  suspense?: boolean;
+  // Rethrow fetch errors to the nearest error boundary (default: same as `suspense`)
+  throwOnError?: boolean | ((error: any, key: QueryKey) => boolean);
+  // Resolved from <DataCacheProvider> when omitted
+  client?: DataCacheClient;
 }
 
 export interface UseDataResponse<T> {
   isLoading: boolean;
+  // No data yet, whether or not a request is running
+  isPending: boolean;
+  // Nothing is being fetched because the query is disabled
+  isIdle: boolean;
+  // `data` comes from placeholderData / keepPreviousData, not from this key
+  isPlaceholderData: boolean;
   data: T | null;
   error: any;
   isRefetching: boolean;
@@ -49,9 +104,21 @@ export interface UseDataResponse<T> {
   syncStatus: "online" | "offline" | "syncing";
   // Medium Priority Enhancements
   isConnected: boolean;
+  connectionState: RealtimeConnectionState;
+  // Reconnects the realtime subscription now, resetting the backoff
+  reconnect: () => void;
   metrics: PerformanceMetrics;
 }
 
+export interface UseLazyDataResponse<T, TArgs> extends UseDataResponse<T> {
+  // Fetches with `args`; resolves once the request settles
+  trigger: (args: TArgs) => Promise<void>;
+  lastArgs: TArgs | undefined;
+}
+
+// In suspense mode data is always available once the component renders
+export type UseSuspenseDataResponse<T> = Omit<UseDataResponse<T>, "data"> & { data: T };
+
 export type UniversalPageParam = string | number | null | undefined | any;
 
 export interface UniversalInfiniteOptions<TData, TPageParam = any> {
@@ -76,13 +143,20 @@ export interface UniversalInfiniteOptions<TData, TPageParam = any> {
   // Optional: Standard options
   staleTime?: number;
   refetchOnMount?: boolean;
+  refetchOnWindowFocus?: boolean | "always";
+  refetchOnReconnect?: boolean | "always";
   enabled?: boolean;
 
   // High Priority Enhancements
   optimisticUpdates?: boolean;
+  // Retries after the first failure, or a predicate; overrides retryAttempts
+  retry?: RetryConfig["retry"];
+  // Total attempts including the first one
   retryAttempts?: number;
-  retryDelay?: number;
+  retryDelay?: number | ((attempt: number, error: any) => number);
   exponentialBackoff?: boolean;
+  retryJitter?: RetryJitter;
+  maxRetryDelay?: number;
   onError?: (error: any, attempt: number) => void;
   backgroundSync?: boolean;
   offlineSupport?: boolean;
@@ -90,12 +164,31 @@ export interface UniversalInfiniteOptions<TData, TPageParam = any> {
   // Medium Priority Enhancements
   realtime?: boolean;
   subscriptionUrl?: string;
-  onUpdate?: (newData: any) => void;
+  onUpdate?: (newData: any, meta: RealtimeMessageMeta) => void;
+  // Turns an incoming message into cache updates; by default messages shaped
+  // like RealtimeMessage are applied and anything else only reaches onUpdate
+  mapMessage?: (message: any, meta: RealtimeMessageMeta) => RealtimeMessage | RealtimeMessage[] | null | undefined;
+  // "websocket" (default), "sse" for text/event-stream endpoints, or a custom transport factory
+  realtimeTransport?: RealtimeTransportOption;
+  // Subscribe/unsubscribe frames sent per key over the shared connection; false sends none
+  realtimeFrames?: RealtimeFrames | false;
+  realtimeHeartbeat?: RealtimeHeartbeatConfig;
+  realtimeReconnect?: RealtimeReconnectConfig;
   cacheStrategy?: "default" | "stale-while-revalidate" | "cache-first" | "network-first";
   cacheTime?: number;
   backgroundRefetch?: boolean;
   enableMetrics?: boolean;
   onMetrics?: (metrics: PerformanceMetrics) => void;
+  // Poll all loaded pages; a function receives the loaded pages and may return false to pause
+  refetchInterval?: number | false | ((pages: any[]) => number | false);
+  // Keep polling while the tab is hidden (default: false)
+  refetchIntervalInBackground?: boolean;
+  // Throw the first page's promise to the nearest <Suspense> while loading
+  suspense?: boolean;
+  // Rethrow fetch errors to the nearest error boundary (default: same as `suspense`)
+  throwOnError?: boolean | ((error: any, key: QueryKey) => boolean);
+  // Resolved from <DataCacheProvider> when omitted
+  client?: DataCacheClient;
 }
 
 export interface UniversalInfiniteState<TData> {
@@ -106,12 +199,18 @@ export interface UniversalInfiniteState<TData> {
   error: any;
   timestamp?: number;
   controller?: AbortController;
+  // Settles with the request currently in flight
+  promise?: Promise<void>;
   // New fields for enhancements
   optimisticData?: TData[];
   retryCount?: number;
   lastError?: any;
   syncStatus?: "online" | "offline" | "syncing";
   metrics?: PerformanceMetrics;
+  // Set by invalidateQueries until the next successful fetch
+  isInvalidated?: boolean;
+  // Sequence number of the last versioned realtime message applied
+  version?: number;
 }
 
 export interface UniversalInfiniteResponse<TData> {
@@ -133,6 +232,9 @@ export interface UniversalInfiniteResponse<TData> {
   syncStatus: "online" | "offline" | "syncing";
   // Medium Priority Enhancements
   isConnected: boolean;
+  connectionState: RealtimeConnectionState;
+  // Reconnects the realtime subscription now, resetting the backoff
+  reconnect: () => void;
   metrics: PerformanceMetrics;
 }
 
@@ -151,6 +253,34 @@ export interface PerformanceMetrics {
   totalRequests: number;
   successfulRequests: number;
   failedRequests: number;
+  // Circuit breaker state per endpoint group, when the client has a breaker
+  circuitBreakers?: Record<string, CircuitBreakerSnapshot>;
+}
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface CircuitBreakerSnapshot {
+  state: CircuitState;
+  // Failures within the rolling window
+  failures: number;
+  openedAt?: number;
+}
+
+export interface CircuitBreakerConfig {
+  enabled: boolean;
+  // Failures within `windowMs` that open the circuit (default: 5)
+  failureThreshold: number;
+  // Length of the rolling failure window in ms (default: 60000)
+  windowMs: number;
+  // How long an open circuit fails fast before letting trial requests through (default: 30000)
+  resetTimeout: number;
+  // Trial requests allowed at once while half-open (default: 1)
+  halfOpenMaxRequests: number;
+  // Endpoint group of a query; undefined bypasses the breaker (default: first path segment of the first key element)
+  groupBy?: (queryKey: QueryKey) => string | undefined;
+  // Errors that count as failures (default: network errors and 5xx responses)
+  isFailure?: (error: any) => boolean;
+  onStateChange?: (group: string, state: CircuitState) => void;
 }
 
 export interface OptimisticUpdate<T> {
@@ -160,25 +290,160 @@ export interface OptimisticUpdate<T> {
 }
 
 export interface RetryConfig {
+  // Total attempts including the first one, used when `retry` is not set
   attempts: number;
-  delay: number;
+  // Retries after the first failure (true: unlimited), or a predicate deciding
+  // after each failure. AbortErrors are never retried, and without a predicate
+  // neither are 4xx responses other than 408 and 429.
+  retry?: number | boolean | ((failureCount: number, error: any) => boolean);
+  // Base delay in ms, or a function returning the whole delay of an attempt
+  delay: number | ((attempt: number, error: any) => number);
   exponentialBackoff: boolean;
+  // "full" (default) waits a random time up to the backoff delay;
+  // "decorrelated" grows from the previous wait instead of the attempt number
+  jitter?: RetryJitter;
+  // Upper bound of a single wait in ms (default: 30000)
+  maxDelay?: number;
+  // Wait as long as a Retry-After header on the error asks (default: true)
+  respectRetryAfter?: boolean;
   onError?: (error: any, attempt: number) => void;
 }
 
+export type RetryJitter = "none" | "full" | "decorrelated";
+
 export interface BackgroundSyncConfig {
   enabled: boolean;
   offlineSupport: boolean;
   syncInterval?: number;
   onSync?: (data: any) => void;
+  // Durable store for mutations queued while offline (default: in memory only)
+  storage?: PersistStorage;
+  storageKey?: string;
+  // Replay attempts before a queued mutation is dropped (default: 3)
+  maxReplayAttempts?: number;
+  // How long a queued mutation waits for registerMutation before it fails (default: 30000)
+  unregisteredMutationTimeout?: number;
+  // Wait before replaying again after a transient failure, doubled per attempt (default: 1000)
+  replayRetryDelay?: number;
+  maxReplayRetryDelay?: number;
+  // Errors treated as conflicts: the mutation is dropped instead of retried (default: HTTP 409)
+  isConflict?: (error: any, mutation: QueuedMutation) => boolean;
+  onMutationConflict?: (error: any, mutation: QueuedMutation) => void;
+  onMutationFailed?: (error: any, mutation: QueuedMutation) => void;
 }
 
+// A mutation issued while offline, stored until it can be replayed
+export interface QueuedMutation {
+  id: string;
+  // Name the mutation function was registered under with registerMutation
+  mutationKey: string;
+  variables: any;
+  createdAt: number;
+  attempts: number;
+  // Cache effects applied once the replay settles
+  optimisticKey?: QueryKey;
+  invalidates?: QueryKey[];
+}
+
+export type MutationQueueEvent =
+  | { type: "queued"; mutation: QueuedMutation }
+  | { type: "success"; mutation: QueuedMutation; data: any }
+  | { type: "conflict" | "failed"; mutation: QueuedMutation; error: any };
+
 export interface RealtimeConfig {
   enabled: boolean;
   subscriptionUrl?: string;
-  onUpdate?: (newData: any) => void;
+  // "websocket" (default), "sse" or a custom transport factory
+  transport?: RealtimeTransportOption;
+  heartbeat?: RealtimeHeartbeatConfig;
+  reconnect?: RealtimeReconnectConfig;
+  onUpdate?: (newData: any, meta: RealtimeMessageMeta) => void;
   onConnect?: () => void;
   onDisconnect?: () => void;
+  onStateChange?: (state: RealtimeConnectionState) => void;
+}
+
+export type RealtimeConnectionState = "connecting" | "open" | "reconnecting" | "closed" | "failed";
+
+// Pings an open connection and reconnects when no message arrives in time,
+// which catches half-open sockets the browser still reports as open
+export interface RealtimeHeartbeatConfig {
+  // Time between pings in ms
+  interval: number;
+  // How long to wait for any message after a ping (default: 10000)
+  timeout?: number;
+  // Frame sent as ping (default: { type: "ping" })
+  message?: any;
+  // Pong frames are not passed on to onUpdate (default: message.type === "pong")
+  isPong?: (message: any) => boolean;
+}
+
+export interface RealtimeReconnectConfig {
+  // Base delay of the exponential backoff in ms (default: 1000)
+  delay?: number;
+  // Upper bound of a single delay in ms (default: 30000)
+  maxDelay?: number;
+  // Attempts before the connection is marked "failed" (default: Infinity)
+  maxAttempts?: number;
+}
+
+export interface RealtimeMessageMeta {
+  // Named Server-Sent Events type; "message" for unnamed events and WebSocket frames
+  event: string;
+  lastEventId?: string;
+}
+
+export interface RealtimeTransportHandlers {
+  onOpen: () => void;
+  onMessage: (data: string, meta: RealtimeMessageMeta) => void;
+  onClose: () => void;
+  onError: (error: any) => void;
+}
+
+// One connection to a realtime endpoint; a new transport is created per connection attempt
+export interface RealtimeTransport {
+  connect: (handlers: RealtimeTransportHandlers) => void;
+  send: (data: string) => void;
+  close: () => void;
+  isOpen: () => boolean;
+}
+
+export type RealtimeTransportFactory = (url: string) => RealtimeTransport;
+
+export type RealtimeTransportOption = "websocket" | "sse" | RealtimeTransportFactory;
+
+// Frames sent over a shared connection when the first subscriber of a key
+// joins and the last one leaves
+export interface RealtimeFrames {
+  subscribe: (queryKey: QueryKey) => any;
+  unsubscribe: (queryKey: QueryKey) => any;
+}
+
+// Routed into the cache by applyRealtimeMessage
+export interface RealtimeMessage {
+  // Defaults to the key of the hook that received the message
+  key?: QueryKey;
+  type: "set" | "merge" | "invalidate" | "patch";
+  data?: any;
+  // RFC 6902 operations applied by "patch" messages
+  patch?: JsonPatchOperation[];
+  // Sequence number of the entry after this message; a "patch" that does not
+  // directly follow the cached version makes the key refetch
+  version?: number;
+  // Infinite queries only: index of the page to set, merge or patch (default: 0)
+  page?: number;
+}
+
+export type JsonPatchOperation =
+  | { op: "add" | "replace" | "test"; path: string; value: any }
+  | { op: "remove"; path: string }
+  | { op: "move" | "copy"; path: string; from: string };
+
+export interface PollingSubscriber {
+  // Read on every tick so it can depend on the latest data; false pauses polling
+  interval: () => number | false | undefined;
+  inBackground: boolean;
+  refetch: () => void;
 }
 
 export interface CacheConfig {
@@ -195,3 +460,145 @@ export interface MetricsConfig {
   trackFetchTimes?: boolean;
 }
 
+
+export type MutationStatus = "idle" | "loading" | "success" | "error";
+
+export type MutationFunction<TData, TVariables> = (variables: TVariables) => Promise<TData>;
+
+export interface UseMutationOptions<TData, TVariables, TContext = unknown> {
+  // Runs before the mutation; the returned value is passed to the other callbacks as rollback context
+  onMutate?: (variables: TVariables) => TContext | Promise<TContext>;
+  onSuccess?: (data: TData, variables: TVariables, context: TContext | undefined) => void | Promise<void>;
+  onError?: (error: any, variables: TVariables, context: TContext | undefined) => void | Promise<void>;
+  onSettled?: (
+    data: TData | undefined,
+    error: any,
+    variables: TVariables,
+    context: TContext | undefined
+  ) => void | Promise<void>;
+  // Query keys invalidated (and refetched when mounted) after a successful mutation
+  invalidates?: QueryKey[] | ((data: TData, variables: TVariables) => QueryKey[]);
+  // Written to DataState.optimisticData while the mutation runs, dropped on error
+  optimisticUpdate?: {
+    key: QueryKey;
+    update: (current: any, variables: TVariables) => any;
+  };
+  retry?: RetryConfig["retry"];
+  retryAttempts?: number;
+  retryDelay?: number | ((attempt: number, error: any) => number);
+  exponentialBackoff?: boolean;
+  retryJitter?: RetryJitter;
+  maxRetryDelay?: number;
+  // While offline, queue the mutation under this name instead of failing; the
+  // queue replays it through the function registered with registerMutation
+  mutationKey?: string;
+  client?: DataCacheClient;
+}
+
+export interface UseMutationResponse<TData, TVariables> {
+  mutate: (variables: TVariables) => void;
+  mutateAsync: (variables: TVariables) => Promise<TData>;
+  status: MutationStatus;
+  data: TData | null;
+  error: any;
+  isLoading: boolean;
+  isSuccess: boolean;
+  isError: boolean;
+  // Issued while offline and waiting in the mutation queue
+  isQueued: boolean;
+  reset: () => void;
+}
+
+export type RevalidationEvent = "focus" | "reconnect";
+
+// A mounted hook instance watching a cache entry
+export interface QueryObserver {
+  // `cancelRefetch` replaces a request already in flight instead of joining it
+  refetch: (options?: { cancelRefetch?: boolean }) => void;
+  // Whether this observer wants its key refetched when the window regains focus or the network returns
+  shouldRefetchOn?: (event: RevalidationEvent) => boolean;
+}
+
+export type CacheEntryType = "data" | "infinite";
+
+// Emitted by DataCacheClient.subscribeEvents for devtools and persisters
+export type CacheEvent =
+  | { type: "updated"; cache: CacheEntryType; key: string; queryKey: QueryKey }
+  | { type: "evicted"; cache: CacheEntryType; key: string; queryKey: QueryKey };
+
+export interface InvalidateQueriesFilters {
+  // Prefix-matched against cached keys unless `exact` is set
+  key?: QueryKey;
+  exact?: boolean;
+  predicate?: (queryKey: QueryKey, state: DataState<any> | UniversalInfiniteState<any>) => boolean;
+  // Which matching entries to refetch after marking them stale (default: "active")
+  refetchType?: "active" | "all" | "none";
+}
+
+// Serializable snapshot of successful cache entries, produced by dehydrate()
+export interface DehydratedState {
+  queries: {
+    queryKey: QueryKey;
+    payload: any;
+    timestamp: number;
+  }[];
+  infiniteQueries: {
+    queryKey: QueryKey;
+    pages: any[];
+    pageParams: any[];
+    timestamp: number;
+  }[];
+}
+
+// Common interface of the localStorage, sessionStorage and IndexedDB adapters
+export interface PersistStorage {
+  getItem: (key: string) => string | null | Promise<string | null>;
+  setItem: (key: string, value: string) => void | Promise<void>;
+  removeItem: (key: string) => void | Promise<void>;
+}
+
+export interface PersistedCache {
+  buster: string;
+  timestamp: number;
+  state: DehydratedState;
+}
+
+export interface PersistCacheOptions {
+  storage: PersistStorage;
+  client?: DataCacheClient;
+  // Snapshots older than this are discarded on restore (default: 24 hours)
+  maxAge?: number;
+  // Snapshots written with a different buster are discarded on restore
+  buster?: string;
+  filter?: (queryKey: QueryKey, cache: CacheEntryType) => boolean;
+  // Minimum time between two writes (default: 1000ms)
+  throttleTime?: number;
+  storageKey?: string;
+}
+
+export interface DataCacheClientConfig {
+  defaultOptions?: UseDataOptions;
+  metrics?: Partial<MetricsConfig>;
+  cache?: Partial<CacheConfig>;
+  backgroundSync?: Partial<BackgroundSyncConfig>;
+  // Minimum time between two focus or reconnect revalidations (default: 1000)
+  revalidationThrottleTime?: number;
+  // Enables a circuit breaker per endpoint group for every query of the client
+  circuitBreaker?: Partial<CircuitBreakerConfig>;
+  // Concurrency limits shared by every fetch of the client
+  scheduler?: Partial<FetchSchedulerConfig>;
+}
+
+export interface FetchSchedulerConfig {
+  // Requests in flight at once across all hosts (default: 16)
+  maxConcurrent: number;
+  // Requests in flight at once per host (default: 6)
+  maxConcurrentPerHost: number;
+  // Host of a query; undefined only counts towards the global limit (default: the host of URL-like keys)
+  getHost?: (queryKey: QueryKey) => string | undefined;
+}
+
+export type PrefetchResult<T = any> =
+  | { key: QueryKey; status: "success"; data: T }
+  | { key: QueryKey; status: "error"; error: any }
+  | { key: QueryKey; status: "cancelled" };
@@ -1,27 +1,94 @@
-import { useSyncExternalStore, useEffect, useRef } from "react";
-import { DataState, UseDataOptions, UseDataResponse, FetchFunction } from "./types";
-import { subscribe, fetchOrUsePreloadedData, formatDataResponse, dataCache, performanceMonitor } from "./cache";
+import { useSyncExternalStore, useEffect, useRef, useCallback, useState } from "react";
+import {
+  DataState,
+  UseDataOptions,
+  UseDataResponse,
+  UseSuspenseDataResponse,
+  UseLazyDataResponse,
+  FetchFunction,
+  LazyFetchFunction
+} from "./types";
+import { fetchOrUsePreloadedData, formatDataResponse } from "./cache";
 import { prefetchData } from "./prefetch";
+import { useDataCacheClient } from "./provider";
+import { QueryKey, hashQueryKey } from "./queryKey";
+import { isServer, shouldThrowError, replaceEqualDeep, getRetryConfig, defaultStaleTime } from "./utils";
+import { useDataErrorResetBoundary } from "./errorResetBoundary";
+import { useQueryObserver, usePolling, useRealtimeSubscription } from "./queryHooks";
 import {
   createRetryManager,
   createOptimisticUpdateManager,
   createBackgroundSyncManager,
-  createRealtimeManager,
   createAdvancedCacheManager,
   RetryManager,
   OptimisticUpdateManager,
   BackgroundSyncManager,
-  RealtimeManager,
   AdvancedCacheManager
 } from "./enhancements";
 
-const defaultStaleTime = 1000 * 5;
+// Always fetches: a disabled query would render without data, which the
+// non-nullable `data` rules out
+export function useSuspenseData<T, TSelected = T>(
+  queryKey: QueryKey,
+  fn: FetchFunction<T>,
+  options: Omit<UseDataOptions<T, TSelected>, "suspense" | "enabled"> = {}
+): UseSuspenseDataResponse<TSelected> {
+  return useData<T, TSelected>(queryKey, fn, { ...options, suspense: true, enabled: true }) as UseSuspenseDataResponse<TSelected>;
+}
+
+/**
+ * Like useData, but nothing is fetched until `trigger(args)` is called. The
+ * arguments are appended to the key, so every distinct call is cached on its own.
+ */
+export function useLazyData<T, TArgs = void, TSelected = T>(
+  queryKey: QueryKey,
+  fn: LazyFetchFunction<TArgs, T>,
+  options: UseDataOptions<T, TSelected> = {}
+): UseLazyDataResponse<TSelected, TArgs> {
+  const client = useDataCacheClient(options.client);
+  const [trigger, setTrigger] = useState<{ args: TArgs } | null>(null);
+
+  const keyFor = (args: TArgs): QueryKey =>
+    typeof queryKey === "string" ? [queryKey, args] : [...queryKey, args];
+
+  const response = useData<T, TSelected>(
+    trigger ? keyFor(trigger.args) : queryKey,
+    (signal) => fn(trigger ? trigger.args : (undefined as TArgs), signal),
+    { ...options, client, enabled: trigger !== null && options.enabled !== false }
+  );
+
+  return {
+    ...response,
+    // Before the first trigger there is nothing to refetch
+    refetch: () => {
+      if (trigger) response.refetch();
+    },
+    lastArgs: trigger?.args,
+    trigger: (args: TArgs) => {
+      setTrigger({ args });
+      const key = keyFor(args);
+      const existing = client.dataCache.get(hashQueryKey(key));
+      return prefetchData(key, (signal) => fn(args, signal), {
+        client,
+        refetching: existing?.status === "success"
+      });
+    }
+  };
+}
 
-export function useData<T>(
-  key: string,
+export function useData<T, TSelected = T>(
+  queryKey: QueryKey,
   fn: FetchFunction<T>,
-  options: UseDataOptions = {}
-): UseDataResponse<T> {
+  hookOptions: UseDataOptions<T, TSelected> = {}
+): UseDataResponse<TSelected> {
+  const client = useDataCacheClient(hookOptions.client);
+  const options: UseDataOptions<T, TSelected> = { ...client.defaultOptions, ...hookOptions, client };
+  const { dataCache, performanceMonitor } = client;
+  const errorResetBoundary = useDataErrorResetBoundary();
+  // Fetches of this key started anywhere (invalidation, polling, focus) retry as configured here
+  const retryConfig = getRetryConfig(options);
+  const key = client.registerQuery(queryKey, fn, retryConfig ? { ...retryConfig, onError: options.onError } : null);
+
   if (!dataCache.has(key)) {
     dataCache.set(key, { status: "idle", payload: null } as DataState<T>);
   }
@@ -29,7 +96,6 @@ export function useData<T>(
   const retryManagerRef = useRef<RetryManager | null>(null);
   const optimisticManagerRef = useRef<OptimisticUpdateManager<T> | null>(null);
   const backgroundSyncRef = useRef<BackgroundSyncManager | null>(null);
-  const realtimeRef = useRef<RealtimeManager | null>(null);
   const advancedCacheRef = useRef<AdvancedCacheManager | null>(null);
 
   // Initialize managers if needed
@@ -53,14 +119,6 @@ export function useData<T>(
     });
   }
 
-  if (options.realtime && !realtimeRef.current) {
-    realtimeRef.current = createRealtimeManager({
-      enabled: options.realtime,
-      subscriptionUrl: options.subscriptionUrl,
-      onUpdate: options.onUpdate
-    });
-  }
-
   if (options.cacheStrategy && options.cacheStrategy !== "default" && !advancedCacheRef.current) {
     advancedCacheRef.current = createAdvancedCacheManager({
       strategy: options.cacheStrategy,
@@ -69,13 +127,58 @@ export function useData<T>(
     });
   }
 
-  const data = useSyncExternalStore(
-    subscribe,
-    () => dataCache.get(key) as DataState<T>
+  const subscribe = useCallback(
+    (callback: () => void) => client.subscribe(key, callback),
+    [client, key]
   );
 
+  // Last key that had data, for keepPreviousData / placeholderData
+  const previousDataRef = useRef<{ key: string; queryKey: QueryKey; data: T } | null>(null);
+
+  // `select` runs once per payload and selector; its result is structurally
+  // shared with the previous one so an unchanged slice keeps its identity
+  const selectRef = useRef<{ payload: unknown; select: (data: T) => TSelected; result: TSelected } | null>(null);
+  const selectData = (payload: T | null | undefined): TSelected | T | null | undefined => {
+    if (!options.select || payload === null || payload === undefined) return payload;
+    const cached = selectRef.current;
+    if (cached && cached.payload === payload && cached.select === options.select) return cached.result;
+    const result = replaceEqualDeep(cached?.result, options.select(payload));
+    selectRef.current = { payload, select: options.select, result };
+    return result;
+  };
+
+  // Errors live in `payload` too; only data statuses go through `select`
+  const renderedData = (state: DataState<T>) =>
+    state.status === "success" || state.status === "isRefetching"
+      ? selectData(state.optimisticData || state.payload)
+      : state.payload;
+
+  // Hands React the previous snapshot when nothing this component renders has
+  // changed, so updates to an unselected part of the payload skip the render
+  const snapshotRef = useRef<{ key: string; state: DataState<T> } | null>(null);
+  const getSnapshot = () => {
+    const state = dataCache.get(key) as DataState<T>;
+    const previous = snapshotRef.current;
+    if (state && previous && previous.key === key && previous.state !== state &&
+      previous.state.status === state.status &&
+      previous.state.retryCount === state.retryCount &&
+      previous.state.syncStatus === state.syncStatus &&
+      previous.state.isInvalidated === state.isInvalidated &&
+      previous.state.metrics === state.metrics &&
+      renderedData(previous.state) === renderedData(state)) {
+      return previous.state;
+    }
+    snapshotRef.current = { key, state };
+    return state;
+  };
+
+  // The server snapshot reads the same (possibly hydrated) client cache
+  const data = useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+
+  // Staleness is read from the live entry; the snapshot may be an older, equivalent one
   const isStale =
-    Date.now() - (data.timestamp || 0) >
+    data.isInvalidated ||
+    Date.now() - ((dataCache.get(key) ?? data).timestamp || 0) >
     (options.staleTime ?? defaultStaleTime);
 
   const noCache = options.noCache ?? false;
@@ -84,13 +187,39 @@ export function useData<T>(
     dataCache.delete(key);
   }
 
-  if (data.status === "idle") {
-    fetchOrUsePreloadedData(key, fn);
+  // A disabled query never fetches on its own; refetch() still works
+  const enabled = options.enabled !== false;
+
+  // Server renders only read what was prefetched unless they can suspend;
+  // otherwise fetching starts on the client
+  if (enabled && data.status === "idle" && (!isServer || options.suspense)) {
+    fetchOrUsePreloadedData(queryKey, fn, client);
   }
 
-  if (options.refetchOnMount && data.status === "success" && isStale) {
-    prefetchData(key, fn, { refetching: true });
+  // Invalidated entries refetch as soon as a hook observes them again
+  if (enabled && (options.refetchOnMount || data.isInvalidated) && data.status === "success" && isStale && !isServer) {
+    prefetchData(queryKey, fn, { refetching: true, client });
   }
+
+  const fnRef = useRef(fn);
+  fnRef.current = fn;
+
+  useQueryObserver(client, "data", key, enabled, options, ({ cancelRefetch } = {}) => {
+    // An initial load that is replaced starts over instead of refetching nothing
+    const refetching = dataCache.get(key)?.status !== "loading";
+    prefetchData(queryKey, fnRef.current, { refetching, cancelRefetch, client });
+  });
+
+  usePolling(client, "data", key, enabled, {
+    refetchInterval: options.refetchInterval,
+    refetchIntervalInBackground: options.refetchIntervalInBackground,
+    getData: () => {
+      const state = dataCache.get(key);
+      return state?.status === "success" || state?.status === "isRefetching" ? state.payload : undefined;
+    },
+    refetch: () => prefetchData(queryKey, fnRef.current, { refetching: true, client })
+  });
+
   useEffect(() => {
     if (options.backgroundSync && backgroundSyncRef.current) {
       backgroundSyncRef.current.startSync();
@@ -101,16 +230,7 @@ export function useData<T>(
     }
   }, [options.backgroundSync]);
 
-  // Real-time subscription setup
-  useEffect(() => {
-    if (options.realtime && realtimeRef.current) {
-      realtimeRef.current.connect();
-
-      return () => {
-        realtimeRef.current?.disconnect();
-      };
-    }
-  }, [options.realtime, options.subscriptionUrl]);
+  const { connectionState, reconnect } = useRealtimeSubscription(client, queryKey, key, options);
 
   // Performance monitoring setup
   useEffect(() => {
@@ -128,10 +248,59 @@ export function useData<T>(
     }
   }, [options.enableMetrics, options.onMetrics]);
 
-  const baseResponse = formatDataResponse<T>(data, key, fn, options);
+  // Suspense: prefetchData joins the request already in flight (including one
+  // started by prefetchMulti), so the thrown promise settles with it. Refetches
+  // keep their payload and never suspend.
+  if (options.suspense && enabled && (data.status === "idle" || data.status === "loading")) {
+    throw prefetchData(queryKey, fn, { client });
+  }
+
+  // The reset boundary refetches this key when the error boundary retries
+  if (data.status === "error" && shouldThrowError(options.throwOnError ?? options.suspense, data.payload, queryKey)) {
+    errorResetBoundary.registerError(`data:${key}`, () => {
+      prefetchData(queryKey, fnRef.current, { client });
+    });
+    throw data.payload;
+  }
+
+  const baseResponse = formatDataResponse<T>(data, queryKey, fn, options, client);
+
+  const hasData = data.status === "success" || data.status === "isRefetching";
+  const previous = previousDataRef.current;
+  if (hasData && baseResponse.data !== null) {
+    previousDataRef.current = { key, queryKey, data: baseResponse.data };
+  }
+
+  let placeholder: T | undefined;
+  if (!hasData && data.status !== "error") {
+    if (options.keepPreviousData && previous && previous.key !== key) {
+      placeholder = previous.data;
+    } else if (typeof options.placeholderData === "function") {
+      placeholder = (options.placeholderData as (previousData: T | undefined, previousKey: QueryKey | undefined) => T | undefined)(
+        previous?.data,
+        previous?.queryKey
+      );
+    } else {
+      placeholder = options.placeholderData;
+    }
+  }
+
+  const placeholderResponse = placeholder !== undefined
+    ? {
+      data: selectData(placeholder),
+      isPlaceholderData: true,
+      // The new key is still being fetched in the background
+      isLoading: false,
+      isPending: false,
+      isRefetching: data.status === "loading"
+    }
+    : { data: selectData(baseResponse.data) };
 
   return {
     ...baseResponse,
+    ...placeholderResponse,
+    // Disabled and never fetched: pending, but nothing is loading
+    ...(!enabled && data.status === "idle" ? { isLoading: false, isIdle: true } : null),
     retry: () => {
       if (retryManagerRef.current) {
         retryManagerRef.current.reset();
@@ -154,7 +323,7 @@ export function useData<T>(
               optimisticData: undefined,
               status: "success"
             });
-            window.dispatchEvent(new Event("dataFetched"));
+            client.notify(key);
           }
         );
       }
@@ -164,7 +333,9 @@ export function useData<T>(
     syncStatus: data.syncStatus || "online",
 
     // Real-time connection status
-    isConnected: realtimeRef.current?.isConnected() || true,
+    isConnected: connectionState === "open",
+    connectionState,
+    reconnect,
 
     // Performance metrics
     metrics: data.metrics || performanceMonitor.getMetrics()
@@ -0,0 +1,167 @@
+import { useState, useRef, useCallback } from "react";
+import {
+  MutationFunction,
+  MutationStatus,
+  UseMutationOptions,
+  UseMutationResponse
+} from "./types";
+import { useDataCacheClient } from "./provider";
+import { DataCacheClient } from "./client";
+import { hashQueryKey } from "./queryKey";
+import { createRetryManager, onlineManager } from "./enhancements";
+import { getRetryConfig } from "./utils";
+
+interface MutationState<TData> {
+  status: MutationStatus;
+  data: TData | null;
+  error: any;
+  isQueued: boolean;
+}
+
+const idleState: MutationState<any> = { status: "idle", data: null, error: null, isQueued: false };
+
+function applyOptimisticUpdate<TVariables>(
+  client: DataCacheClient,
+  optimisticUpdate: NonNullable<UseMutationOptions<any, TVariables>["optimisticUpdate"]>,
+  variables: TVariables
+) {
+  const key = hashQueryKey(optimisticUpdate.key);
+  const state = client.dataCache.get(key);
+  if (!state || state.status !== "success") return;
+
+  client.dataCache.set(key, {
+    ...state,
+    optimisticData: optimisticUpdate.update(state.optimisticData ?? state.payload, variables)
+  });
+  client.notify(key);
+}
+
+function settleOptimisticUpdate(
+  client: DataCacheClient,
+  optimisticUpdate: NonNullable<UseMutationOptions<any, any>["optimisticUpdate"]>,
+  commit: boolean
+) {
+  const key = hashQueryKey(optimisticUpdate.key);
+  const state = client.dataCache.get(key);
+  if (!state || state.optimisticData === undefined) return;
+
+  client.dataCache.set(key, {
+    ...state,
+    // On success the optimistic value stands in until invalidation refetches the key
+    payload: commit ? state.optimisticData : state.payload,
+    optimisticData: undefined
+  });
+  client.notify(key);
+}
+
+export function useMutation<TData = unknown, TVariables = void, TContext = unknown>(
+  mutationFn: MutationFunction<TData, TVariables>,
+  options: UseMutationOptions<TData, TVariables, TContext> = {}
+): UseMutationResponse<TData, TVariables> {
+  const client = useDataCacheClient(options.client);
+  const [state, setState] = useState<MutationState<TData>>(idleState);
+
+  // Results of a mutation started before reset() or a newer mutate() are ignored
+  const mutationIdRef = useRef(0);
+  const mutationFnRef = useRef(mutationFn);
+  const optionsRef = useRef(options);
+  mutationFnRef.current = mutationFn;
+  optionsRef.current = options;
+
+  const mutateAsync = useCallback(async (variables: TVariables): Promise<TData> => {
+    const currentOptions = optionsRef.current;
+    const mutationId = ++mutationIdRef.current;
+    const isCurrent = () => mutationId === mutationIdRef.current;
+
+    // Offline mutations with a mutationKey wait in the queue instead of failing,
+    // and so do online ones while earlier mutations are still queued, to keep their order
+    const { mutationKey } = currentOptions;
+    const queued = mutationKey !== undefined &&
+      (!onlineManager.isOnline() || client.backgroundSync.getQueue().length > 0);
+
+    setState({ status: "loading", data: null, error: null, isQueued: queued });
+
+    let context: TContext | undefined;
+    let enqueued = false;
+    try {
+      if (currentOptions.optimisticUpdate) {
+        applyOptimisticUpdate(client, currentOptions.optimisticUpdate, variables);
+      }
+      context = await currentOptions.onMutate?.(variables);
+
+      let data: TData;
+      if (queued) {
+        // Mutations registered up front survive a reload; this fallback only lasts the session
+        if (!client.backgroundSync.hasMutation(mutationKey)) {
+          client.backgroundSync.registerMutation(mutationKey, (queuedVariables: TVariables) =>
+            mutationFnRef.current(queuedVariables)
+          );
+        }
+        enqueued = true;
+        data = await client.backgroundSync.enqueue({
+          mutationKey,
+          variables,
+          optimisticKey: currentOptions.optimisticUpdate?.key,
+          invalidates: Array.isArray(currentOptions.invalidates) ? currentOptions.invalidates : undefined
+        });
+      } else {
+        const retryManager = createRetryManager(getRetryConfig(currentOptions) ?? { attempts: 1 });
+        data = await retryManager.execute(() => mutationFnRef.current(variables));
+      }
+
+      // The client settles the cache for replayed mutations
+      if (currentOptions.optimisticUpdate && !queued) {
+        settleOptimisticUpdate(client, currentOptions.optimisticUpdate, true);
+      }
+
+      if (typeof currentOptions.invalidates === "function") {
+        currentOptions.invalidates(data, variables).forEach((key) => client.invalidateQueries({ key }));
+      } else if (!queued) {
+        currentOptions.invalidates?.forEach((key) => client.invalidateQueries({ key }));
+      }
+
+      await currentOptions.onSuccess?.(data, variables, context);
+      await currentOptions.onSettled?.(data, null, variables, context);
+
+      if (isCurrent()) {
+        setState({ status: "success", data, error: null, isQueued: false });
+      }
+      return data;
+    } catch (error) {
+      if (currentOptions.optimisticUpdate && !enqueued) {
+        settleOptimisticUpdate(client, currentOptions.optimisticUpdate, false);
+      }
+
+      await currentOptions.onError?.(error, variables, context);
+      await currentOptions.onSettled?.(undefined, error, variables, context);
+
+      if (isCurrent()) {
+        setState({ status: "error", data: null, error, isQueued: false });
+      }
+      throw error;
+    }
+  }, [client]);
+
+  const mutate = useCallback((variables: TVariables) => {
+    // Errors are reported through state and onError; nothing to catch for the caller
+    mutateAsync(variables).catch(() => {});
+  }, [mutateAsync]);
+
+  const reset = useCallback(() => {
+    mutationIdRef.current++;
+    setState(idleState);
+  }, []);
+
+  return {
+    mutate,
+    mutateAsync,
+    status: state.status,
+    data: state.data,
+    error: state.error,
+    isLoading: state.status === "loading",
+    isSuccess: state.status === "success",
+    isError: state.status === "error",
+    isQueued: state.isQueued,
+    reset
+  };
+}
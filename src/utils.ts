@@ -0,0 +1,65 @@
+import type { RetryConfig, UseDataOptions } from "./types";
+
+// True when rendering outside the browser (SSR, tests under Node)
+export const isServer = typeof window === "undefined";
+
+// How long fetched data counts as fresh unless a hook sets `staleTime`
+export const defaultStaleTime = 1000 * 5;
+
+// Resolves the `throwOnError` option of useData / useUniversalInfiniteQuery
+export function shouldThrowError<TKey>(
+  throwOnError: boolean | ((error: any, key: TKey) => boolean) | undefined,
+  error: any,
+  key: TKey
+): boolean {
+  return typeof throwOnError === "function" ? throwOnError(error, key) : !!throwOnError;
+}
+
+// Resolves the retry options of a hook, or undefined when it does not retry
+export function getRetryConfig(
+  options: Pick<UseDataOptions, "retry" | "retryAttempts" | "retryDelay" | "exponentialBackoff" | "retryJitter" | "maxRetryDelay">
+): Partial<RetryConfig> | undefined {
+  if (options.retry === undefined && !options.retryAttempts) return undefined;
+  return {
+    attempts: options.retryAttempts || 1,
+    retry: options.retry,
+    delay: options.retryDelay ?? 1000,
+    exponentialBackoff: options.exponentialBackoff !== false,
+    jitter: options.retryJitter,
+    maxDelay: options.maxRetryDelay
+  };
+}
+
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (Object.prototype.toString.call(value) !== "[object Object]") return false;
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === null || prototype === Object.prototype;
+}
+
+/**
+ * Returns `next`, but with every subtree that is deep-equal to the matching
+ * subtree of `previous` replaced by the previous reference. If nothing changed
+ * at all, `previous` itself is returned, so memoized consumers skip rendering.
+ */
+export function replaceEqualDeep<T>(previous: unknown, next: T): T {
+  if (previous === next) return next;
+
+  const bothArrays = Array.isArray(previous) && Array.isArray(next);
+  if (!bothArrays && !(isPlainObject(previous) && isPlainObject(next))) return next;
+
+  const prev = previous as Record<string, unknown>;
+  const nextObject = next as unknown as Record<string, unknown>;
+  const prevKeys = Object.keys(prev);
+  const nextKeys = Object.keys(nextObject);
+  const copy: Record<string, unknown> = bothArrays ? [] as unknown as Record<string, unknown> : {};
+
+  let equalItems = 0;
+  nextKeys.forEach((name) => {
+    copy[name] = replaceEqualDeep(prev[name], nextObject[name]);
+    if (copy[name] === prev[name] && (name in prev)) {
+      equalItems++;
+    }
+  });
+
+  return (prevKeys.length === nextKeys.length && equalItems === prevKeys.length ? previous : copy) as T;
+}